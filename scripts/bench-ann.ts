@@ -0,0 +1,75 @@
+// Compares the HNSW memory index against the linear scan it replaced.
+//
+//   npm run bench:ann                       # 10k and 100k vectors, 1536 dims
+//   npm run bench:ann -- --sizes 2000 --dims 256 --queries 50
+//
+// Needs Node 22.6+ (runs the TypeScript source directly). 100k x 1536 takes a while
+// to build and about 600 MB for the vectors alone.
+
+import { HNSWIndex, normalizeVector } from '../src/lib/memory/hnsw.ts';
+
+function readArg(name: string, fallback: string): string {
+  const index = process.argv.indexOf(`--${name}`);
+  return index !== -1 && process.argv[index + 1] ? process.argv[index + 1] : fallback;
+}
+
+const sizes = readArg('sizes', '10000,100000').split(',').map(Number);
+const dims = Number(readArg('dims', '1536'));
+const queryCount = Number(readArg('queries', '100'));
+const k = Number(readArg('k', '10'));
+const candidates = Number(readArg('candidates', '50'));
+
+// clustered vectors look more like real embeddings than uniform noise does
+function makeVectors(count: number, clusters = 64): Float32Array[] {
+  const centers = Array.from({ length: clusters }, () =>
+    normalizeVector(Array.from({ length: dims }, () => Math.random() * 2 - 1)),
+  );
+  return Array.from({ length: count }, () => {
+    const center = centers[Math.floor(Math.random() * clusters)];
+    return normalizeVector(Array.from(center, value => value + (Math.random() * 2 - 1) * 0.05));
+  });
+}
+
+function linearScan(vectors: Float32Array[], query: Float32Array, topK: number): number[] {
+  const scored = vectors.map((vector, id) => {
+    let similarity = 0;
+    for (let i = 0; i < dims; i++) similarity += vector[i] * query[i];
+    return { id, similarity };
+  });
+  scored.sort((a, b) => b.similarity - a.similarity);
+  return scored.slice(0, topK).map(result => result.id);
+}
+
+const ms = (start: number) => performance.now() - start;
+
+for (const size of sizes) {
+  console.log(`\n${size} vectors x ${dims} dims, ${queryCount} queries, top ${k} (${candidates} candidates)`);
+  const vectors = makeVectors(size);
+  const queries = makeVectors(queryCount);
+
+  let start = performance.now();
+  const index = new HNSWIndex();
+  vectors.forEach((vector, id) => index.insert(id, vector));
+  console.log(`  build:        ${(ms(start) / 1000).toFixed(1)} s`);
+
+  let linearTime = 0;
+  let annTime = 0;
+  let hits = 0;
+  for (const query of queries) {
+    start = performance.now();
+    const expected = linearScan(vectors, query, k);
+    linearTime += ms(start);
+
+    // findSimilarMemories pulls `candidates` neighbours and re-ranks them, so recall is
+    // measured on whether the true top k made it into that candidate set
+    start = performance.now();
+    const found = new Set(index.search(query, candidates).map(result => result.id));
+    annTime += ms(start);
+
+    hits += expected.filter(id => found.has(id)).length;
+  }
+
+  console.log(`  linear scan:  ${(linearTime / queryCount).toFixed(2)} ms/query`);
+  console.log(`  hnsw:         ${(annTime / queryCount).toFixed(2)} ms/query`);
+  console.log(`  recall@${k}:    ${((hits / (queryCount * k)) * 100).toFixed(1)}%`);
+}
@@ -0,0 +1,135 @@
+import { useState, type ChangeEvent } from 'react';
+import { Download, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  createBackup,
+  isEncryptedBackupFile,
+  readBackup,
+  restoreBackup,
+  type RestoreMode,
+  type RestoreSummary,
+} from '@/lib/backup';
+import { downloadTranscript } from '@/lib/sessions';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './select';
+
+interface BackupPanelProps {
+  onRestored?: (mode: RestoreMode, summary: RestoreSummary) => void;
+}
+
+interface SelectedFile {
+  name: string;
+  content: string;
+  encrypted: boolean;
+}
+
+export function BackupPanel({ onRestored }: BackupPanelProps) {
+  const [exportPassphrase, setExportPassphrase] = useState('');
+  const [file, setFile] = useState<SelectedFile | null>(null);
+  const [importPassphrase, setImportPassphrase] = useState('');
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [isBusy, setIsBusy] = useState(false);
+
+  const handleExport = async () => {
+    setIsBusy(true);
+    try {
+      downloadTranscript(await createBackup(exportPassphrase || undefined));
+      setExportPassphrase('');
+    } catch (error) {
+      console.error('Backup failed:', error);
+      toast.error('Failed to create a backup.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    event.target.value = '';
+    if (!selected) return;
+    const content = await selected.text();
+    setFile({ name: selected.name, content, encrypted: isEncryptedBackupFile(content) });
+    setImportPassphrase('');
+  };
+
+  const handleRestore = async () => {
+    if (!file) return;
+    if (mode === 'replace' && !window.confirm('Replace all memories, profile and conversations with this backup? This cannot be undone.')) {
+      return;
+    }
+    setIsBusy(true);
+    try {
+      const bundle = await readBackup(file.content, importPassphrase || undefined);
+      const summary = await restoreBackup(bundle, mode);
+      toast.success(`Restored ${summary.memories} memories, ${summary.profileFacts} profile facts and ${summary.sessions} conversations.`);
+      setFile(null);
+      setImportPassphrase('');
+      onRestored?.(mode, summary);
+    } catch (error) {
+      console.error('Restore failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to restore the backup.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="backup-panel">
+      <section className="backup-section">
+        <h3 className="backup-heading">Export</h3>
+        <p className="history-meta">Memories, profile and conversations in one file. Add a passphrase to encrypt it.</p>
+        <input
+          className="history-search"
+          type="password"
+          placeholder="Passphrase (optional)"
+          autoComplete="new-password"
+          value={exportPassphrase}
+          onChange={event => setExportPassphrase(event.target.value)}
+        />
+        <button className="backup-button" onClick={handleExport} disabled={isBusy}>
+          <Download size={16} /> Download backup
+        </button>
+      </section>
+
+      <section className="backup-section">
+        <h3 className="backup-heading">Restore</h3>
+        <label className="backup-button">
+          <Upload size={16} /> {file ? file.name : 'Choose a backup file'}
+          <input type="file" accept="application/json,.json" hidden onChange={handleFileChange} disabled={isBusy} />
+        </label>
+        {file?.encrypted && (
+          <input
+            className="history-search"
+            type="password"
+            placeholder="Passphrase"
+            autoComplete="current-password"
+            value={importPassphrase}
+            onChange={event => setImportPassphrase(event.target.value)}
+          />
+        )}
+        <div className="history-toolbar">
+          <Select value={mode} onValueChange={value => setMode(value as RestoreMode)}>
+            <SelectTrigger className="history-select">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="merge">Merge</SelectItem>
+              <SelectItem value="replace">Replace</SelectItem>
+            </SelectContent>
+          </Select>
+          <button
+            className="backup-button"
+            onClick={handleRestore}
+            disabled={isBusy || !file || (file.encrypted && !importPassphrase)}
+          >
+            Restore
+          </button>
+        </div>
+        <p className="history-meta">
+          {mode === 'merge'
+            ? 'Adds what is missing and keeps everything already here.'
+            : 'Clears memories, profile and conversations, then restores the backup.'}
+        </p>
+      </section>
+    </div>
+  );
+}
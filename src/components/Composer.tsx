@@ -0,0 +1,61 @@
+import { useState, type KeyboardEvent } from 'react';
+import { SendHorizontal, Volume2, VolumeX } from 'lucide-react';
+import { Textarea } from './textarea';
+
+interface ComposerProps {
+  onSubmit: (text: string, options: { speakReply: boolean }) => void;
+  disabled: boolean;
+}
+
+export function Composer({ onSubmit, disabled }: ComposerProps) {
+  const [text, setText] = useState('');
+  // applies to the next message only; resets after each send
+  const [speakReply, setSpeakReply] = useState(true);
+
+  const submit = () => {
+    if (disabled || !text.trim()) return;
+    onSubmit(text.trim(), { speakReply });
+    setText('');
+    setSpeakReply(true);
+  };
+
+  // Enter sends, Shift+Enter adds a line; leave Enter alone while an IME is composing
+  const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === 'Enter' && !event.shiftKey && !event.nativeEvent.isComposing) {
+      event.preventDefault();
+      submit();
+    }
+  };
+
+  return (
+    <div className="composer">
+      <button
+        className={`composer-button ${speakReply ? 'active' : ''}`}
+        onClick={() => setSpeakReply(on => !on)}
+        title={speakReply ? 'Samantha will speak her reply' : 'Samantha will reply in text only'}
+        aria-label={speakReply ? 'Reply will be spoken' : 'Reply will not be spoken'}
+        aria-pressed={speakReply}
+      >
+        {speakReply ? <Volume2 size={20} /> : <VolumeX size={20} />}
+      </button>
+      <Textarea
+        className="composer-input"
+        rows={1}
+        placeholder="Type a message… (Shift+Enter for a new line)"
+        value={text}
+        onChange={event => setText(event.target.value)}
+        onKeyDown={handleKeyDown}
+        autoFocus
+      />
+      <button
+        className="composer-button"
+        onClick={submit}
+        disabled={disabled || !text.trim()}
+        title="Send"
+        aria-label="Send message"
+      >
+        <SendHorizontal size={20} />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import { useEffect, useState } from 'react';
+import { Lock, LockOpen } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  disableMemoryEncryption,
+  enableMemoryEncryption,
+  getMemoryLockState,
+  lockMemories,
+  type MemoryLockState,
+} from '@/lib/memory';
+
+interface EncryptionPanelProps {
+  onChange?: (state: MemoryLockState) => void;
+}
+
+// a passphrase shorter than this is too easy to guess offline, whatever the key derivation
+const MIN_PASSPHRASE_LENGTH = 8;
+
+// what the stores need to find records by, and so can't be sealed
+const UNSEALED_NOTE =
+  'Left readable: when each memory was saved and which ones were merged, when each conversation was last ' +
+  'active and how many messages it has, and the kind and subject of each profile fact (e.g. "relationship: dog", ' +
+  'but not the dog\'s name).';
+
+export function EncryptionPanel({ onChange }: EncryptionPanelProps) {
+  const [state, setState] = useState<MemoryLockState | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    getMemoryLockState().then(setState).catch(error => console.error('Failed to read the encryption state:', error));
+  }, []);
+
+  const update = (next: MemoryLockState) => {
+    setState(next);
+    onChange?.(next);
+  };
+
+  const handleEnable = async () => {
+    if (passphrase !== confirmation) {
+      toast.error('The passphrases do not match.');
+      return;
+    }
+    setIsBusy(true);
+    try {
+      await enableMemoryEncryption(passphrase);
+      setPassphrase('');
+      setConfirmation('');
+      update('unlocked');
+      toast.success('Memories, conversations and the profile are now encrypted.');
+    } catch (error) {
+      console.error('Enabling encryption failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to encrypt memories.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    if (!window.confirm('Decrypt all memories and store them without a passphrase?')) return;
+    setIsBusy(true);
+    try {
+      await disableMemoryEncryption();
+      update('off');
+      toast.success('Memories are no longer encrypted.');
+    } catch (error) {
+      console.error('Disabling encryption failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to decrypt memories.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleLock = () => {
+    lockMemories();
+    update('locked');
+  };
+
+  if (state === null) return null;
+
+  return (
+    <section className="backup-section">
+      <h3 className="backup-heading">Encryption</h3>
+      {state === 'off' ? (
+        <>
+          <p className="history-meta">
+            Encrypt memories, conversation history and the profile with a passphrase. It is asked for on every
+            visit and cannot be recovered if forgotten.
+          </p>
+          <p className="history-meta">{UNSEALED_NOTE}</p>
+          <input
+            className="history-search"
+            type="password"
+            placeholder="New passphrase"
+            autoComplete="new-password"
+            value={passphrase}
+            onChange={event => setPassphrase(event.target.value)}
+          />
+          <input
+            className="history-search"
+            type="password"
+            placeholder="Repeat passphrase"
+            autoComplete="new-password"
+            value={confirmation}
+            onChange={event => setConfirmation(event.target.value)}
+          />
+          <button
+            className="backup-button"
+            onClick={handleEnable}
+            disabled={isBusy || passphrase.length < MIN_PASSPHRASE_LENGTH || !confirmation}
+          >
+            <Lock size={16} /> Encrypt memories
+          </button>
+          {passphrase && passphrase.length < MIN_PASSPHRASE_LENGTH && (
+            <p className="history-meta">Use at least {MIN_PASSPHRASE_LENGTH} characters.</p>
+          )}
+        </>
+      ) : (
+        <>
+          <p className="history-meta">
+            Memories, conversation history and the profile are encrypted and unlocked for this visit.
+          </p>
+          <p className="history-meta">{UNSEALED_NOTE}</p>
+          <div className="history-toolbar">
+            <button className="backup-button" onClick={handleLock} disabled={isBusy}>
+              <Lock size={16} /> Lock now
+            </button>
+            <button className="backup-button" onClick={handleDisable} disabled={isBusy}>
+              <LockOpen size={16} /> Turn off encryption
+            </button>
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,272 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ArrowLeft, Download, Trash2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  deleteSession,
+  downloadTranscript,
+  exportTranscript,
+  getSession,
+  getSessionTurns,
+  listSessions,
+  searchTurns,
+  type SessionOverview,
+  type SessionRecord,
+  type TurnRecord,
+} from '@/lib/sessions';
+import type { RestoreMode, RestoreSummary } from '@/lib/backup';
+import type { MemoryLockState } from '@/lib/memory';
+import type { Message, TranscriptFormat } from '@/types/chat';
+import { BackupPanel } from './BackupPanel';
+import { EncryptionPanel } from './EncryptionPanel';
+import { ProvidersPanel } from './ProvidersPanel';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './select';
+
+interface HistoryBrowserProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSessionDeleted?: (sessionId: string) => void;
+  onBackupRestored?: (mode: RestoreMode, summary: RestoreSummary) => void;
+  onMemoryLockChange?: (state: MemoryLockState) => void;
+}
+
+interface OpenTranscript {
+  session: SessionRecord;
+  messages: Message[];
+}
+
+const SNIPPET_RADIUS = 60;
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+// a window of text around the first match, with the match split out for highlighting
+function snippetAround(text: string, query: string) {
+  const index = text.toLowerCase().indexOf(query.trim().toLowerCase());
+  if (index === -1) return { before: text.slice(0, SNIPPET_RADIUS * 2), match: '', after: '' };
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = index + query.trim().length;
+  return {
+    before: (start > 0 ? '…' : '') + text.slice(start, index),
+    match: text.slice(index, end),
+    after: text.slice(end, end + SNIPPET_RADIUS) + (end + SNIPPET_RADIUS < text.length ? '…' : ''),
+  };
+}
+
+export function HistoryBrowser({ isOpen, onClose, onSessionDeleted, onBackupRestored, onMemoryLockChange }: HistoryBrowserProps) {
+  const [sessions, setSessions] = useState<SessionOverview[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [transcript, setTranscript] = useState<OpenTranscript | null>(null);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<TurnRecord[]>([]);
+  const [format, setFormat] = useState<TranscriptFormat>('markdown');
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setSessions(await listSessions());
+    } catch (error) {
+      console.error('Failed to load conversation history:', error);
+      toast.error('Failed to load conversation history.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      refresh();
+    } else {
+      setTranscript(null);
+    }
+  }, [isOpen, refresh]);
+
+  // search as the user types, once they pause
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      return;
+    }
+    const timer = setTimeout(() => {
+      searchTurns(query)
+        .then(setResults)
+        .catch((error: unknown) => console.error('History search failed:', error));
+    }, 250);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const openTranscript = async (sessionId: string) => {
+    try {
+      const [session, turns] = await Promise.all([getSession(sessionId), getSessionTurns(sessionId)]);
+      if (!session) return;
+      setTranscript({
+        session,
+        messages: turns.map(turn => ({ role: turn.role, content: turn.content, timestamp: turn.timestamp, citations: turn.citations })),
+      });
+    } catch (error) {
+      console.error('Failed to open transcript:', error);
+      toast.error('Failed to open this conversation.');
+    }
+  };
+
+  const handleDelete = async (sessionId: string) => {
+    if (!window.confirm('Delete this conversation? This cannot be undone.')) return;
+    try {
+      await deleteSession(sessionId);
+      setTranscript(current => (current?.session.id === sessionId ? null : current));
+      setResults(current => current.filter(turn => turn.sessionId !== sessionId));
+      onSessionDeleted?.(sessionId);
+      await refresh();
+    } catch (error) {
+      console.error('Failed to delete conversation:', error);
+      toast.error('Failed to delete this conversation.');
+    }
+  };
+
+  const handleExport = () => {
+    if (!transcript) return;
+    downloadTranscript(exportTranscript(transcript.session, transcript.messages, format));
+  };
+
+  return (
+    <div className={`history-browser ${isOpen ? 'open' : ''}`} aria-hidden={!isOpen}>
+      <div className="history-header">
+        {transcript ? (
+          <button className="history-icon-button" onClick={() => setTranscript(null)} title="Back to history">
+            <ArrowLeft size={18} />
+          </button>
+        ) : (
+          <h2 className="history-title">History</h2>
+        )}
+        <button className="history-icon-button" onClick={onClose} title="Close history">
+          <X size={18} />
+        </button>
+      </div>
+
+      {transcript ? (
+        <div className="history-transcript">
+          <div className="history-toolbar">
+            <span className="history-meta">{formatDate(transcript.session.startedAt)}</span>
+            <Select value={format} onValueChange={value => setFormat(value as TranscriptFormat)}>
+              <SelectTrigger className="history-select">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="markdown">Markdown</SelectItem>
+                <SelectItem value="json">JSON</SelectItem>
+                <SelectItem value="text">Plain text</SelectItem>
+              </SelectContent>
+            </Select>
+            <button className="history-icon-button" onClick={handleExport} title="Export transcript">
+              <Download size={18} />
+            </button>
+            <button
+              className="history-icon-button danger"
+              onClick={() => handleDelete(transcript.session.id)}
+              title="Delete conversation"
+            >
+              <Trash2 size={18} />
+            </button>
+          </div>
+          <ul className="history-list">
+            {transcript.messages.map((message, index) => (
+              <li key={index} className={`history-turn ${message.role}`}>
+                <p className="history-meta">
+                  {message.role === 'user' ? 'You' : 'Samantha'} · {message.timestamp ? formatDate(message.timestamp) : ''}
+                </p>
+                <p className="history-text">{message.content}</p>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : (
+        <Tabs defaultValue="sessions" className="history-tabs">
+          <TabsList className="history-tabs-list">
+            <TabsTrigger value="sessions">Sessions</TabsTrigger>
+            <TabsTrigger value="search">Search</TabsTrigger>
+            <TabsTrigger value="backup">Backup</TabsTrigger>
+            <TabsTrigger value="privacy">Privacy</TabsTrigger>
+            <TabsTrigger value="providers">Providers</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="sessions" className="history-tab-content">
+            {isLoading ? (
+              <div className="history-empty">Loading history...</div>
+            ) : sessions.length === 0 ? (
+              <div className="history-empty">No conversations yet.</div>
+            ) : (
+              <ul className="history-list">
+                {sessions.map(({ session, turnCount, preview }) => (
+                  <li key={session.id} className="history-item">
+                    <button className="history-item-content" onClick={() => openTranscript(session.id)}>
+                      <p className="history-text">{preview || 'Greeting only'}</p>
+                      <p className="history-meta">
+                        {formatDate(session.updatedAt)} · {turnCount} {turnCount === 1 ? 'turn' : 'turns'}
+                      </p>
+                    </button>
+                    <button
+                      className="history-icon-button danger"
+                      onClick={() => handleDelete(session.id)}
+                      title="Delete conversation"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </TabsContent>
+
+          <TabsContent value="search" className="history-tab-content">
+            <input
+              className="history-search"
+              type="search"
+              placeholder="Search every conversation"
+              value={query}
+              onChange={event => setQuery(event.target.value)}
+            />
+            {query.trim() && results.length === 0 ? (
+              <div className="history-empty">No matches.</div>
+            ) : (
+              <ul className="history-list">
+                {results.map(turn => {
+                  const { before, match, after } = snippetAround(turn.content, query);
+                  return (
+                    <li key={turn.id} className="history-item">
+                      <button className="history-item-content" onClick={() => openTranscript(turn.sessionId)}>
+                        <p className="history-text">
+                          {before}<mark>{match}</mark>{after}
+                        </p>
+                        <p className="history-meta">
+                          {turn.role === 'user' ? 'You' : 'Samantha'} · {formatDate(turn.timestamp)}
+                        </p>
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </TabsContent>
+
+          <TabsContent value="backup" className="history-tab-content">
+            <BackupPanel
+              onRestored={(mode, summary) => {
+                refresh();
+                onBackupRestored?.(mode, summary);
+              }}
+            />
+          </TabsContent>
+
+          <TabsContent value="privacy" className="history-tab-content">
+            <div className="backup-panel">
+              <EncryptionPanel onChange={onMemoryLockChange} />
+            </div>
+          </TabsContent>
+
+          <TabsContent value="providers" className="history-tab-content">
+            <ProvidersPanel />
+          </TabsContent>
+        </Tabs>
+      )}
+    </div>
+  );
+}
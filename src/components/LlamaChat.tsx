@@ -1,28 +1,48 @@
 import { useState, useEffect, useRef, useCallback } from "react";
-import { Mic, MicOff } from "lucide-react";
-import { addMemory, preloadEmbeddingModel } from "@/lib/memory";
+import { Brain, Captions, History, Keyboard, Mic, MicOff } from "lucide-react";
+import { addMemory, applyRetentionPolicy, consolidateMemories, findDuplicateClusters, findSimilarMemories, getMemoryLockState, preloadEmbeddingModel, reembedMemories, reinforceMemories, type MemoryLockState } from "@/lib/memory";
 import { toast } from "sonner";
-import { buildLlamaContext } from "@/lib/contextBuilder";
+import { buildLlamaContext, type LlamaContext, type RetrievalLog } from "@/lib/contextBuilder";
+import { extractCitations, stripCitations } from "@/lib/citations";
+import { getProviderConfig } from "@/lib/providers";
+import type { RestoreMode } from "@/lib/backup";
+import { createDefaultIngestionPipeline } from "@/lib/ingestion";
+import { handleMemoryCommand, type ForgetProposal, type MemoryCommandResult } from "@/lib/commands";
+import { addTurn, createSession, getLatestSession, getSessionTurns, updateSessionSummary, type TurnDetails } from "@/lib/sessions";
+import { formatProfile, getProfile, getProfileName, saveProfileFacts, type ProfileFactSource } from "@/lib/profile";
 import type { Voices, Message } from "@/types/chat";
 import { OS1Animation } from "./OS1Animation";
+import { HistoryBrowser } from "./HistoryBrowser";
+import { MemoryViewer } from "./MemoryViewer";
+import { TranscriptPanel } from "./TranscriptPanel";
+import { Composer } from "./Composer";
+import { UnlockPrompt } from "./UnlockPrompt";
 // Removed visualizer import; no longer used
 import "./OS1Animation.css";
 import { useOpenAIRecorder } from "@/hooks/useOpenAIRecorder";
-// MemoryViewer UI removed
-
-
-const DENIAL_PHRASES_FOR_STORAGE = [
-  "don't have personal memories",
-  "don't retain information",
-  "start from a blank slate",
-  "cannot recall past conversations",
-  "don't have memory",
-  "i cannot recall", 
-  "i don't recall",
-  "i am unable to recall",
-  "i don't have information about you",
-  "i don't know your name" 
-];
+
+
+// decides which user utterances become memories, and logs why
+const memoryIngestion = createDefaultIngestionPipeline();
+
+// shown under the mic while the worker runs a tool
+const TOOL_ACTIVITY_LABELS: Record<string, string> = {
+  search_memories: "Remembering…",
+  set_timer: "Setting a timer…",
+  cancel_timer: "Cancelling the timer…",
+  get_current_time: "Checking the time…",
+};
+
+// a session idle for longer than this isn't restored; the next visit starts a new one
+const SESSION_RESUME_WINDOW_MS = 12 * 60 * 60 * 1000;
+// how often to merge near-duplicate memories and apply the retention policy, when the app is idle
+const MEMORY_MAINTENANCE_INTERVAL_MS = 5 * 60 * 1000;
+
+// a synthesized sentence and the text it speaks, so captions can follow playback
+interface AudioChunk {
+  audio: Blob;
+  text: string;
+}
 
 export function LlamaChat() {
   const [messages, setMessages] = useState<Message[]>([]);
@@ -31,8 +51,9 @@ export function LlamaChat() {
   const speed = 1;
   const selectedVoice: keyof Voices = "alloy";
   // Removed unused TTS processing state
-  const [audioChunkQueue, setAudioChunkQueue] = useState<Blob[]>([]);
+  const [audioChunkQueue, setAudioChunkQueue] = useState<AudioChunk[]>([]);
   const [isAudioPlaying, setIsAudioPlaying] = useState(false);
+  const [spokenText, setSpokenText] = useState<string | null>(null);
   
   // Simplified TTS - no queue needed
   
@@ -46,48 +67,165 @@ export function LlamaChat() {
   const [loadingProgress, setLoadingProgress] = useState(0);
   const [showLoadingAnimation, setShowLoadingAnimation] = useState(false);
   const [inputReady, setInputReady] = useState(false);
+  const [toolActivity, setToolActivity] = useState<string | null>(null);
+  const [sessionLoaded, setSessionLoaded] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showMemories, setShowMemories] = useState(false);
+  const [citedMemoryId, setCitedMemoryId] = useState<number | null>(null); // opened from a transcript citation
+  // null until read; memories can't be used while "locked"
+  const [memoryLock, setMemoryLock] = useState<MemoryLockState | null>(null);
+  const [showTranscript, setShowTranscript] = useState(() => localStorage.getItem("os1_showTranscript") === "true");
+  const [liveTranscript, setLiveTranscript] = useState("");
+  const [inputMode, setInputMode] = useState<"voice" | "keyboard">(
+    () => localStorage.getItem("os1_inputMode") === "keyboard" ? "keyboard" : "voice"
+  );
   
   const messageEndRef = useRef<HTMLDivElement>(null);
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const currentAudioUrlRef = useRef<string | null>(null);
   const latestResponseRef = useRef<string>("");
+  // what memory retrieval found for the reply being generated, saved with it
+  const retrievalRef = useRef<RetrievalLog | null>(null);
   const latestUserSubmitRef = useRef<string>(""); 
   const messagesRef = useRef<Message[]>([]);
   const currentSentenceBufferRef = useRef<string>("");
   const isProcessingRef = useRef(isProcessing);
+  const isAudioPlayingRef = useRef(false);
   const lastSubmittedTextRef = useRef<string>("");
+  // whether the reply in progress is read aloud; typed messages can opt out
+  const speakReplyRef = useRef(true);
+  // bumped on every interrupt so late TTS chunks from the old reply are dropped
+  const ttsGenerationRef = useRef(0);
+  // running summary of the turns that fell out of the context window; coveredCount is
+  // how many messages from the start of the conversation it accounts for
+  const sessionSummaryRef = useRef({ text: "", coveredCount: 0 });
+  const requestedSummaryCountRef = useRef(0);
+  // memories handed to the worker for merging, so the next pass leaves them alone
+  const pendingConsolidationRef = useRef(new Set<number>());
+  // --- Session persistence ---
+  const sessionIdRef = useRef<string | null>(null);
+  const sessionWritesRef = useRef<Promise<void>>(Promise.resolve());
 
   // --- Onboarding Guide State ---
   const [showGuide, setShowGuide] = useState(true);
   // --- End Onboarding Guide State ---
 
-  // --- Removed Memory Viewer refs ---
-
   useEffect(() => { messagesRef.current = messages; }, [messages]);
   useEffect(() => { isProcessingRef.current = isProcessing; }, [isProcessing]);
+  useEffect(() => { isAudioPlayingRef.current = isAudioPlaying; }, [isAudioPlaying]);
+
+  // --- Memory Encryption ---
+  // An encrypted memory store asks for its passphrase before anything reads it, the
+  // last session included.
+  useEffect(() => {
+    getMemoryLockState()
+      .then(setMemoryLock)
+      .catch((error: unknown) => {
+        // carry on as before encryption existed; memory reads report their own failures
+        console.error("Failed to read the memory encryption state:", error);
+        setMemoryLock("off");
+      });
+  }, []);
+
+  const memoryReadable = memoryLock === "off" || memoryLock === "unlocked";
+  // --- End Memory Encryption ---
+
+  // --- Restore Last Session ---
+  useEffect(() => {
+    if (!memoryReadable || sessionLoaded) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const session = await getLatestSession();
+        if (!session || Date.now() - session.updatedAt > SESSION_RESUME_WINDOW_MS) return;
+        const turns = await getSessionTurns(session.id);
+        if (cancelled || turns.length === 0) return;
+
+        sessionIdRef.current = session.id;
+        sessionSummaryRef.current = { text: session.summary ?? "", coveredCount: session.summaryCoveredCount ?? 0 };
+        requestedSummaryCountRef.current = sessionSummaryRef.current.coveredCount;
+        setMessages(turns.map(turn => ({ role: turn.role, content: turn.content, citations: turn.citations })));
+      } catch (error) {
+        console.error("Failed to restore the last session:", error);
+      } finally {
+        if (!cancelled) setSessionLoaded(true);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [memoryReadable, sessionLoaded]);
+
+  // Writes are chained so the session is created once and turns land in order; resolves
+  // with the write's result, or undefined if it failed
+  const queueSessionWrite = useCallback(<T,>(write: (sessionId: string) => Promise<T>): Promise<T | undefined> => {
+    const result = sessionWritesRef.current
+      .then(async () => {
+        if (!sessionIdRef.current) {
+          sessionIdRef.current = (await createSession()).id;
+        }
+        return await write(sessionIdRef.current);
+      })
+      .catch((error: unknown) => {
+        console.error("Failed to save conversation session:", error);
+        return undefined;
+      });
+    sessionWritesRef.current = result.then(() => undefined);
+    return result;
+  }, []);
+
+  // resolves with where the turn was saved, for tracing profile facts back to it
+  const recordTurn = useCallback(async (role: "user" | "assistant", content: string, details?: TurnDetails): Promise<Omit<ProfileFactSource, "text"> | undefined> => {
+    if (!content || !content.trim()) return undefined;
+    let savedSessionId: string | undefined;
+    const turnId = await queueSessionWrite(sessionId => {
+      savedSessionId = sessionId;
+      return addTurn(sessionId, role, content, details);
+    });
+    return turnId === undefined ? undefined : { sessionId: savedSessionId, turnId };
+  }, [queueSessionWrite]);
+
+  // saves a model reply without its citation tags; the cited ids are kept with the turn,
+  // along with what retrieval found for it
+  const recordReply = useCallback((rawText: string): { text: string; citations: number[] } => {
+    const retrieval = retrievalRef.current ?? undefined;
+    retrievalRef.current = null;
+    const reply = extractCitations(rawText, retrieval?.injectedIds);
+    recordTurn("assistant", reply.text, { citations: reply.citations, retrieval });
+    return reply;
+  }, [recordTurn]);
+  // the next turn starts a new session if the current one was deleted from the history browser
+  const handleSessionDeleted = useCallback((sessionId: string) => {
+    if (sessionIdRef.current === sessionId) {
+      sessionIdRef.current = null;
+    }
+  }, []);
+  // --- End Session Persistence ---
 
   useEffect(() => {
     document.body.classList.add('os1-theme');
     return () => { document.body.classList.remove('os1-theme'); };
   }, []);
 
-  const buildContextMemo = useCallback(async (userInput: string) => {
+  const buildContextMemo = useCallback(async (userInput: string, history: Message[] = []): Promise<LlamaContext | null> => {
+    retrievalRef.current = null;
     try {
-      return await buildLlamaContext(userInput);
+      const context = await buildLlamaContext(userInput, history, sessionSummaryRef.current.text);
+      retrievalRef.current = context.retrieval;
+      return context;
     } catch (buildError) {
       //console.error("Error building Llama context:", buildError);
       //toast.error("Failed to process memories for context.");
-      return "";
+      return null;
     }
   }, []);
 
-  const updateMessages = useCallback((text: string) => {
+  const updateMessages = useCallback((text: string, citations?: number[]) => {
     setMessages(prev => {
       const newMessages = [...prev];
       if (newMessages.length > 0 && newMessages[newMessages.length - 1].role === "assistant") {
         newMessages[newMessages.length - 1] = { 
           ...newMessages[newMessages.length - 1], 
-          content: text 
+          content: text,
+          citations
         };
       }
       return newMessages;
@@ -114,31 +252,59 @@ export function LlamaChat() {
     kokoroWorker.current.postMessage({ 
       text: sanitizedText, 
       voice: selectedVoice, 
-      speed 
+      speed,
+      generation: ttsGenerationRef.current
     });
   };
 
+  // Stops Samantha mid-reply: aborts generation and TTS requests and silences playback
+  const interruptSamantha = useCallback(() => {
+    ttsGenerationRef.current += 1;
+    llamaWorker.current?.postMessage({ type: "interrupt" });
+    kokoroWorker.current?.postMessage({ type: "interrupt" });
+
+    setAudioChunkQueue([]);
+    if (audioRef.current) {
+      audioRef.current.pause();
+      audioRef.current.removeAttribute("src");
+    }
+    setIsAudioPlaying(false);
+    setSpokenText(null);
+
+    currentSentenceBufferRef.current = "";
+    setToolActivity(null);
+    resetProcessing();
+  }, [resetProcessing]);
+
   // Simplified TTS - no queue processing needed
 
   const playNextChunk = useCallback(() => {
     if (audioChunkQueue.length === 0 || isAudioPlaying) return;
     
     const nextChunk = audioChunkQueue[0];
-    const url = URL.createObjectURL(nextChunk);
+    const url = URL.createObjectURL(nextChunk.audio);
 
     if (!audioRef.current) {
       audioRef.current = new Audio();
-      audioRef.current.onended = () => setIsAudioPlaying(false);
-      audioRef.current.onerror = () => setIsAudioPlaying(false);
+      audioRef.current.onended = () => {
+        setIsAudioPlaying(false);
+        setSpokenText(null);
+      };
+      audioRef.current.onerror = () => {
+        setIsAudioPlaying(false);
+        setSpokenText(null);
+      };
     }
 
     setAudioChunkQueue(prev => prev.slice(1));
     audioRef.current.src = url;
     setIsAudioPlaying(true);
+    setSpokenText(nextChunk.text);
     
     audioRef.current.play().catch(err => {
       console.error("Audio playback error:", err);
       setIsAudioPlaying(false);
+      setSpokenText(null);
     });
   }, [audioChunkQueue.length, isAudioPlaying]);
 
@@ -149,21 +315,35 @@ export function LlamaChat() {
       }
       
       //console.log("Generating welcome back message using context builder...");
+      speakReplyRef.current = true;
       resetProcessing(); 
 
+      // The name comes straight from the profile rather than from whatever memory search turns up
+      let userName: string | undefined;
+      try {
+          userName = await getProfileName();
+      } catch (profileError) {
+          console.error("Failed to read the user's name from the profile:", profileError);
+      }
+      const welcomeInstruction = userName
+          ? `Briefly welcome the user back, calling them ${userName}.`
+          : "Briefly welcome the user back.";
+
       let systemPrompt = "";
       try {
-          const triggerPhrase = "You are Samantha, created by OMNIA OS. Briefly welcome the user back by knowing what is the user's name.";
-          systemPrompt = await buildContextMemo(triggerPhrase); 
+          const triggerPhrase = `You are Samantha, created by OMNIA OS. ${welcomeInstruction}`;
+          systemPrompt = (await buildContextMemo(triggerPhrase))?.systemPrompt ?? ""; 
           //console.log("Context built for welcome message:", systemPrompt); 
           if (!systemPrompt) {
               console.warn("Context builder returned empty for welcome message, using fallback.");
-              systemPrompt = "You are Samantha, created by OMNIA OS. Briefly welcome the user back.";
+              systemPrompt = `You are Samantha, created by OMNIA OS. ${welcomeInstruction}`;
+          } else if (userName) {
+              systemPrompt += `\n\n${welcomeInstruction}`;
           }
       } catch (buildError) {
           console.error("Error building context for welcome message:", buildError);
           toast.error("Failed to build context for greeting.");
-          systemPrompt = "You are Samantha, created by OMNIA OS. Briefly welcome the user back.";
+          systemPrompt = `You are Samantha, created by OMNIA OS. ${welcomeInstruction}`;
       }
 
                 queueMicrotask(() => {
@@ -200,7 +380,64 @@ export function LlamaChat() {
   }, [status, resetProcessing, setIsProcessing, buildContextMemo]); // Added buildContextMemo dependency
 
 
-  const handleSubmit = useCallback(async (submittedText?: string) => {
+  // Folds messages that no longer fit in the prompt into the session summary, in the background
+  const requestSessionSummary = useCallback((history: Message[], droppedCount: number) => {
+    const { text, coveredCount } = sessionSummaryRef.current;
+    if (droppedCount <= Math.max(coveredCount, requestedSummaryCountRef.current) || !llamaWorker.current) {
+      return;
+    }
+    requestedSummaryCountRef.current = droppedCount;
+
+    const transcript = history
+      .slice(coveredCount, droppedCount)
+      .filter(message => message.role !== "system" && message.content.trim())
+      .map(message => `${message.role === "user" ? "User" : "Samantha"}: ${message.content}`)
+      .join("\n");
+
+    llamaWorker.current.postMessage({
+      type: "summarize",
+      data: { mode: "session", previousSummary: text, transcript, coveredCount: droppedCount }
+    });
+  }, []);
+
+  // Asks the worker to pull profile facts out of the user's message. Post it after the
+  // reply's generate request so it queues behind the reply instead of delaying it.
+  const requestProfileExtraction = useCallback(async (
+    text: string,
+    previousMessage: string,
+    turn: Promise<Omit<ProfileFactSource, "text"> | undefined>
+  ) => {
+    try {
+      const [profile, savedTurn] = await Promise.all([getProfile(), turn]);
+      llamaWorker.current?.postMessage({
+        type: "extract_profile",
+        data: { text, previousMessage, knownProfile: formatProfile(profile), source: { ...savedTurn, text } }
+      });
+    } catch (error) {
+      console.error("Failed to request profile extraction:", error);
+    }
+  }, []);
+
+  // --- Memory Commands ---
+  // "remember that…", "forget what I said about…" and "what do you remember?" are answered
+  // without the model (see src/lib/commands); forgetting waits for a yes on the next turn
+  const pendingForgetRef = useRef<ForgetProposal | null>(null);
+
+  const runMemoryCommand = useCallback(async (text: string): Promise<MemoryCommandResult | null> => {
+    const pending = pendingForgetRef.current;
+    pendingForgetRef.current = null;
+    try {
+      const result = await handleMemoryCommand(text, pending);
+      pendingForgetRef.current = result?.proposal ?? null;
+      return result;
+    } catch (error) {
+      console.error("Memory command failed:", error);
+      return { reply: "Sorry, I couldn't get to my memories just now." };
+    }
+  }, []);
+  // --- End Memory Commands ---
+
+  const handleSubmit = useCallback(async (submittedText?: string, options: { speakReply?: boolean } = {}) => {
  
       // Simple processing - no interruptions
       resetProcessing();
@@ -218,6 +455,7 @@ export function LlamaChat() {
           return;
         }
         lastSubmittedTextRef.current = textToSubmit.trim();
+        speakReplyRef.current = options.speakReply ?? true;
     
         //console.log("Submitting message (microtask):", textToSubmit);
         setIsProcessing(true);
@@ -227,13 +465,22 @@ export function LlamaChat() {
         latestUserSubmitRef.current = userInputText;
         //console.log(`LlamaChat: Storing for memory/submit ref (using text): "${latestUserSubmitRef.current}"`);
 
-        let contextForLlama = "";
-        try {
-            contextForLlama = await buildContextMemo(userInputText);
-        } catch (buildError) {
-            console.error("Error building Llama context:", buildError);
-            toast.error("Failed to process memories for context.");
-            contextForLlama = "";
+        const command = await runMemoryCommand(userInputText);
+        if (command) {
+          // answered already, and kept out of the ingestion pipeline: a "remember" stored its own memory
+          latestUserSubmitRef.current = "";
+          const previousReply = [...messagesRef.current].reverse().find(message => message.role === "assistant")?.content ?? "";
+          setMessages([...messagesRef.current, { role: "user", content: userInputText }, { role: "assistant", content: command.reply }]);
+          setLiveTranscript("");
+          const commandTurn = recordTurn("user", userInputText);
+          recordTurn("assistant", command.reply);
+          requestProfileExtraction(userInputText, previousReply, commandTurn);
+          if (speakReplyRef.current) {
+            speakText(command.reply);
+          }
+          setIsProcessing(false);
+          isProcessingRef.current = false;
+          return;
         }
 
         // --- Prepare Messages --- 
@@ -243,27 +490,41 @@ export function LlamaChat() {
 
         const currentMessagesForDisplay = [...messagesRef.current, userMessageForDisplay]; 
         setMessages([...currentMessagesForDisplay, { role: "assistant", content: "" }]);
+        setLiveTranscript("");
+        const userTurn = recordTurn("user", userInputText);
+        const previousAssistantMessage = [...messagesRef.current].reverse().find(message => message.role === "assistant")?.content ?? "";
 
         const fullHistory = [...messagesRef.current, userMessageForWorker];
-        const SLIDING_WINDOW_SIZE = 10;
-        let messagesForWorker = fullHistory.slice(-SLIDING_WINDOW_SIZE);
-        //console.log(`LlamaChat: Sliced message history to last ${messagesForWorker.length} messages (max ${SLIDING_WINDOW_SIZE})`);
+
+        // The context builder trims memories and history to the model's token budget
+        let contextForLlama: LlamaContext | null = null;
+        try {
+            contextForLlama = await buildContextMemo(userInputText, fullHistory);
+        } catch (buildError) {
+            console.error("Error building Llama context:", buildError);
+            toast.error("Failed to process memories for context.");
+        }
 
         if (contextForLlama) {
-          //console.log("Prepending system prompt with context for worker...");
-          messagesForWorker.unshift({ role: "system", content: contextForLlama });
+          requestSessionSummary(fullHistory, contextForLlama.droppedCount);
         }
 
+        const messagesForWorker: Message[] = contextForLlama
+          ? [{ role: "system", content: contextForLlama.systemPrompt }, ...contextForLlama.history]
+          : [userMessageForWorker];
+
         setTimeout(() => {
           if (llamaWorker.current) {
             const messagePayload = {
               messages: messagesForWorker,
+              maxTokens: contextForLlama?.maxTokens,
             };
             //console.log(`LlamaChat: Posting message type 'generate' to worker. Context included: ${!!contextForLlama}`);
             llamaWorker.current.postMessage({
               type: "generate",
               data: messagePayload
       });
+            requestProfileExtraction(userInputText, previousAssistantMessage, userTurn);
             } else {
             console.error("Llama worker not available");
             setIsProcessing(false); 
@@ -273,11 +534,12 @@ export function LlamaChat() {
           }
         }, 50); 
       }); 
-  }, [buildContextMemo, resetProcessing]);
+  }, [buildContextMemo, resetProcessing, requestSessionSummary, requestProfileExtraction, recordTurn, runMemoryCommand]);
 
   const handleTranscriptionUpdate = useCallback((text: string) => {
     if (text && text.trim()) {
         console.log("LlamaChat received transcription update:", text);
+        setLiveTranscript(text.trim());
         // Auto-submit when transcription is received, but only if not already processing
         if (!isProcessingRef.current) {
             handleSubmit(text);
@@ -287,6 +549,14 @@ export function LlamaChat() {
     }
   }, [handleSubmit]); 
 
+  // Barge-in: the user started talking over Samantha
+  const handleSpeechStart = useCallback(() => {
+    if (isAudioPlayingRef.current || isProcessingRef.current) {
+      console.log("User spoke over Samantha, interrupting");
+      interruptSamantha();
+    }
+  }, [interruptSamantha]);
+
   const handleSilenceSubmit = useCallback((_text: string, _audioData: Float32Array | null) => {
     //console.log("LlamaChat: Silence duration met, triggering submit.");
     // Audio transcription is handled by the recorder hook, so we don't need to store audio data
@@ -295,6 +565,7 @@ export function LlamaChat() {
 
   const {
     isRecording,
+    isTranscribing,
     transcriptionReady,
     startRecording: startRecordingWhisper,
     stopRecording: stopRecordingWhisper,
@@ -302,6 +573,7 @@ export function LlamaChat() {
   } = useOpenAIRecorder({
       onTranscriptionUpdate: handleTranscriptionUpdate,
       onSilenceDetected: handleSilenceSubmit,
+      onSpeechStart: handleSpeechStart,
   });
 
 
@@ -316,7 +588,7 @@ export function LlamaChat() {
     kokoroWorker.current = new Worker(new URL("../openai-tts-worker.js", import.meta.url), { type: "module" });
 
     const handleLlamaMessage = (e: MessageEvent) => {
-      const { status, output, data, summary, error } = e.data;
+      const { status, output, data, summary, error, finishReason } = e.data;
       
       switch (status) {
         case "ready":
@@ -328,6 +600,7 @@ export function LlamaChat() {
           setComponentError(data || "Error loading Llama model");
           clearInterval(loadingInterval);
           currentSentenceBufferRef.current = ""; 
+          setToolActivity(null);
           break;
         case "start":
           latestResponseRef.current = "";
@@ -348,73 +621,68 @@ export function LlamaChat() {
           }
           break;
         case "sentence_ready":
-          const sentenceToSpeak = output;
+          const sentenceToSpeak = e.data.sentence;
           if (typeof sentenceToSpeak === 'string' && sentenceToSpeak.trim()) {
-            speakText(sentenceToSpeak.trim());
+            // the worker's buffer mirrors ours, so drop what was just handed to TTS
+            const buffer = currentSentenceBufferRef.current;
+            const end = buffer.indexOf(sentenceToSpeak);
+            currentSentenceBufferRef.current = end === -1 ? "" : buffer.slice(end + sentenceToSpeak.length);
+            // memory citations are for the transcript, not to be read out
+            const spoken = stripCitations(sentenceToSpeak).trim();
+            if (spoken && speakReplyRef.current) {
+              speakText(spoken);
+            }
           }
           break;
+        case "interrupted":
+          // keep whatever was said before the interruption, but don't learn from it
+          setIsProcessing(false);
+          setToolActivity(null);
+          currentSentenceBufferRef.current = "";
+          recordReply(latestResponseRef.current);
+          latestUserSubmitRef.current = "";
+          latestResponseRef.current = "";
+          break;
+
         case "complete":
           setIsProcessing(false);
+          setToolActivity(null);
           
-          const finalText = output || latestResponseRef.current;
+          // the citation tags come out of the reply and become links to the memories
+          const { text: finalText, citations } = recordReply(output || latestResponseRef.current);
           const userInput = latestUserSubmitRef.current;
-          updateMessages(finalText);
+          updateMessages(finalText, citations);
+          if (finishReason === "length") {
+            console.warn("Reply was cut off by the token limit");
+          }
           
           // Speak any remaining text
-          const remainingBuffer = currentSentenceBufferRef.current.trim();
-          if (remainingBuffer) {
+          const remainingBuffer = stripCitations(currentSentenceBufferRef.current).trim();
+          if (remainingBuffer && speakReplyRef.current) {
             speakText(remainingBuffer);
           }
           currentSentenceBufferRef.current = "";
 
-          // Only create memory for meaningful user input, not for every response
+          // The ingestion pipeline decides whether this exchange becomes a memory (see src/lib/ingestion)
           if (userInput && userInput.trim()) {
-            const lowerCaseFinalText = finalText?.toLowerCase() || '';
-            const shouldSaveMemory = !DENIAL_PHRASES_FOR_STORAGE.some(phrase => 
-              lowerCaseFinalText.includes(phrase)
-            );
-
-            if (shouldSaveMemory) {
-              const SHORT_INPUT_WORD_THRESHOLD = 15;
-              const MIN_DIRECT_STORE_WORD_COUNT = 2; // Don't store <= 2 words
-              const wordCount = userInput.split(/\s+/).filter(Boolean).length;
-
-              // Additional checks for meaningful content
-              const isMeaningful = wordCount >= MIN_DIRECT_STORE_WORD_COUNT && 
-                                 !userInput.toLowerCase().includes('hello') &&
-                                 !userInput.toLowerCase().includes('hi') &&
-                                 !userInput.toLowerCase().includes('hey') &&
-                                 userInput.length > 10;
-
-              // Store directly ONLY if meaningful and between 3 and 14 words (inclusive)
-              if (isMeaningful && wordCount < SHORT_INPUT_WORD_THRESHOLD) {
-                  //console.log(`Input is short (${wordCount} words), storing directly.`);
-                  addMemory(userInput, 'user')
-                    .then(() => {
-                        // Short user input added to memory.
-                    })
-                    .catch((memError: unknown) => { 
-                        console.error("Failed to add short user input to memory:", memError);
-                        toast.error("Failed to save short memory input.");
-                    });
-              // Summarize if 15 words or more and meaningful
-              } else if (wordCount >= SHORT_INPUT_WORD_THRESHOLD && isMeaningful) {
-                 const textToSummarize = userInput; 
-                 //console.log(`Requesting summarization for user input (${wordCount} words):`, textToSummarize.substring(0, 100) + "...");
-                 if (llamaWorker.current) {
-                   llamaWorker.current.postMessage({
-                     type: 'summarize',
-                     data: { textToSummarize }
-                   });
-                 } else {
-                   console.error("Llama worker not available for summarization request.");
-                   toast.error("Could not save memory summary: Worker unavailable.");
-                 }
+            const decision = memoryIngestion.decide({ userText: userInput, assistantText: finalText || "" });
+
+            if (decision.action === "store") {
+              addMemory(userInput, 'user')
+                .catch((memError: unknown) => {
+                  console.error("Failed to add user input to memory:", memError);
+                  toast.error("Failed to save memory input.");
+                });
+            } else if (decision.action === "summarize") {
+              if (llamaWorker.current) {
+                llamaWorker.current.postMessage({
+                  type: 'summarize',
+                  data: { textToSummarize: userInput }
+                });
               } else {
-                  //console.log(`Input too short (${wordCount} words), skipping memory storage.`);
+                console.error("Llama worker not available for summarization request.");
+                toast.error("Could not save memory summary: Worker unavailable.");
               }
-            } else {
-               //console.log("Skipping memory save due to denial phrase.");
             }
           }
 
@@ -424,6 +692,94 @@ export function LlamaChat() {
           }, 100);
           break;
 
+        case "memory_search":
+          // the worker's search_memories tool; the memory index is only kept on this thread
+          findSimilarMemories(e.data.query, { topK: e.data.topK })
+            .then(memories => {
+              // handed to the model, so they count as used
+              reinforceMemories(memories.map(memory => memory.id)).catch((reinforceError: unknown) => {
+                console.error("Failed to reinforce memories:", reinforceError);
+              });
+              llamaWorker.current?.postMessage({
+                type: "memory_search_result",
+                data: { requestId: e.data.requestId, results: memories.map(({ text, timestamp }) => ({ text, timestamp })) },
+              });
+            })
+            .catch((searchError: unknown) => {
+              console.error("Memory search for the worker failed:", searchError);
+              llamaWorker.current?.postMessage({
+                type: "memory_search_result",
+                data: { requestId: e.data.requestId, error: searchError instanceof Error ? searchError.message : String(searchError) },
+              });
+            });
+          break;
+
+        case "tool_call":
+          setToolActivity(TOOL_ACTIVITY_LABELS[e.data.tool?.name] ?? "Working on it…");
+          break;
+
+        case "tool_result":
+          if (e.data.tool?.error) {
+            console.warn(`Tool ${e.data.tool.name} failed:`, e.data.tool.error);
+          }
+          setToolActivity(null);
+          break;
+
+        case "tool_event":
+          if (e.data.event?.type === "timer_done") {
+            const label = e.data.event.label;
+            const announcement = label ? `Your ${label} timer is done.` : "Your timer is done.";
+            toast(announcement);
+            speakText(announcement);
+          }
+          break;
+
+        case "session_summary_complete":
+          if (typeof summary === "string" && summary && e.data.coveredCount > sessionSummaryRef.current.coveredCount) {
+            sessionSummaryRef.current = { text: summary, coveredCount: e.data.coveredCount };
+            const { coveredCount } = e.data;
+            queueSessionWrite(sessionId => updateSessionSummary(sessionId, summary, coveredCount));
+          }
+          break;
+
+        case "session_summary_error":
+          // try again with the next turn
+          requestedSummaryCountRef.current = sessionSummaryRef.current.coveredCount;
+          console.warn("Session summary failed in worker:", data);
+          break;
+
+        case "consolidation_complete": {
+          const memoryIds: number[] = e.data.memoryIds ?? [];
+          const releaseMemories = () => memoryIds.forEach(id => pendingConsolidationRef.current.delete(id));
+          if (typeof e.data.text === "string" && e.data.text.trim()) {
+            consolidateMemories(memoryIds, e.data.text)
+              .catch((consolidationError: unknown) => {
+                console.error("Failed to save consolidated memory:", consolidationError);
+              })
+              .finally(releaseMemories);
+          } else {
+            releaseMemories();
+          }
+          break;
+        }
+
+        case "consolidation_error":
+          console.warn("Memory consolidation failed in worker:", data);
+          (e.data.memoryIds ?? []).forEach((id: number) => pendingConsolidationRef.current.delete(id));
+          break;
+
+        case "profile_extracted":
+          if (Array.isArray(e.data.facts) && e.data.facts.length > 0) {
+            saveProfileFacts(e.data.facts, e.data.source).catch((profileError: unknown) => {
+              console.error("Failed to save profile facts:", profileError);
+            });
+          }
+          break;
+
+        case "profile_error":
+          console.warn("Profile extraction failed in worker:", data);
+          break;
+
         case "summarization_start":
           //console.log("Worker started summarization process...");
           break;
@@ -468,8 +824,12 @@ export function LlamaChat() {
           setLoadingProgress(prev => Math.max(prev, 75));
           break;
         case "stream":
+          if (chunk && chunk.generation !== ttsGenerationRef.current) {
+            // audio for a reply that has since been interrupted
+            break;
+          }
           if (chunk && chunk.audio instanceof Blob) {
-            handleAudioChunk(chunk.audio);
+            handleAudioChunk({ audio: chunk.audio, text: chunk.text ?? "" });
           } else {
             console.warn("Received stream message without valid audio blob:", chunk);
           }
@@ -490,8 +850,9 @@ export function LlamaChat() {
     kokoroWorker.current.addEventListener("message", handleKokoroMessage);
 
     console.log("Requesting model loads for Llama, Kokoro...");
-    llamaWorker.current.postMessage({ type: "load" });
-    kokoroWorker.current.postMessage({ type: "load" });
+    const providers = getProviderConfig();
+    llamaWorker.current.postMessage({ type: "load", data: { providers } });
+    kokoroWorker.current.postMessage({ type: "load", data: { providers } });
 
     console.log("Initiating preload for Embedding model...");
     preloadEmbeddingModel().catch((err: unknown) => { 
@@ -518,7 +879,7 @@ export function LlamaChat() {
             currentAudioUrlRef.current = null; 
       }
     };
-  }, []);
+  }, [recordTurn, recordReply, queueSessionWrite]);
 
   useEffect(() => {
     if (recorderError) {
@@ -558,7 +919,7 @@ export function LlamaChat() {
   }, [llamaStatus, kokoroStatus, transcriptionReady]); 
 
   useEffect(() => {
-    if (inputReady && messages.length === 0 && !isProcessingRef.current) {
+    if (inputReady && sessionLoaded && memoryReadable && messages.length === 0 && !isProcessingRef.current) {
       const visitedFlag = localStorage.getItem('os1_hasVisited');
 
       if (!visitedFlag) {
@@ -567,19 +928,20 @@ export function LlamaChat() {
         localStorage.setItem('os1_hasVisited', 'true');
         const greetingMessage: Message = { role: 'assistant', content: greetingText };
         setMessages([greetingMessage]);
+        recordTurn("assistant", greetingText);
         speakText(greetingText);
       } else {
         //console.log("Return visit detected, triggering LLM for welcome back message.");
         generateWelcomeBackMessage(); 
       }
     }
-  }, [inputReady, messages.length, generateWelcomeBackMessage]);
+  }, [inputReady, sessionLoaded, memoryReadable, messages.length, generateWelcomeBackMessage, recordTurn]);
 
   useEffect(() => {
     messageEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [messages]);
 
-  const handleAudioChunk = useCallback((chunk: Blob) => {
+  const handleAudioChunk = useCallback((chunk: AudioChunk) => {
     setAudioChunkQueue(prev => {
       if (prev.length >= 10) {
         //console.warn("Audio queue size limit reached, dropping oldest chunk");
@@ -596,7 +958,112 @@ export function LlamaChat() {
     }
   }, [isAudioPlaying, audioChunkQueue.length, playNextChunk]);
 
-  // --- Removed Memory Viewer handlers and effects ---
+  // --- Memory Maintenance ---
+  const runMemoryMaintenance = useCallback(async () => {
+    if (isProcessingRef.current || isAudioPlayingRef.current || !llamaWorker.current) return;
+    try {
+      const { archived, deleted } = await applyRetentionPolicy();
+      if (archived || deleted) {
+        console.log(`Retention policy: archived ${archived}, deleted ${deleted} memories.`);
+      }
+
+      const clusters = await findDuplicateClusters({ exclude: pendingConsolidationRef.current });
+      for (const cluster of clusters) {
+        cluster.forEach(memory => pendingConsolidationRef.current.add(memory.id));
+        llamaWorker.current?.postMessage({
+          type: "summarize",
+          data: { mode: "consolidate", memories: cluster.map(({ id, text, timestamp }) => ({ id, text, timestamp })) }
+        });
+      }
+    } catch (error) {
+      console.error("Memory maintenance pass failed:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (status !== "ready" || !memoryReadable) return;
+    let idleHandle: number | undefined;
+    const schedule = () => {
+      if (typeof requestIdleCallback === 'function') {
+        idleHandle = requestIdleCallback(() => { runMemoryMaintenance(); });
+      } else {
+        idleHandle = window.setTimeout(runMemoryMaintenance, 0);
+      }
+    };
+    schedule();
+    const interval = setInterval(schedule, MEMORY_MAINTENANCE_INTERVAL_MS);
+    return () => {
+      clearInterval(interval);
+      if (idleHandle === undefined) return;
+      if (typeof cancelIdleCallback === 'function') {
+        cancelIdleCallback(idleHandle);
+      } else {
+        clearTimeout(idleHandle);
+      }
+    };
+  }, [status, memoryReadable, runMemoryMaintenance]);
+
+  // Memories embedded with a previous model (after a model switch, or restored from a
+  // backup) are re-embedded in the background; the job resumes where it stopped if the
+  // page was closed during it
+  const runReembedding = useCallback((signal?: AbortSignal) => {
+    const toastId = "reembed-memories";
+    let migrating = false;
+    reembedMemories({
+      signal,
+      onProgress: ({ total, done }) => {
+        if (done < total) {
+          migrating = true;
+          toast.loading(`Updating memories for the new embedding model (${done}/${total})...`, { id: toastId });
+        }
+      },
+    })
+      .then(({ failed }) => {
+        if (signal?.aborted || !migrating) return;
+        if (failed > 0) {
+          toast.error(`Could not update ${failed} memories for the new embedding model; they'll be retried on the next start.`, { id: toastId });
+        } else {
+          toast.success("Memories updated for the new embedding model.", { id: toastId });
+        }
+      })
+      .catch((error: unknown) => {
+        console.error("Re-embedding memories failed:", error);
+        toast.dismiss(toastId);
+      });
+  }, []);
+
+  useEffect(() => {
+    if (status !== "ready" || !memoryReadable) return;
+    const controller = new AbortController();
+    runReembedding(controller.signal);
+    return () => controller.abort();
+  }, [status, memoryReadable, runReembedding]);
+
+  const handleBackupRestored = useCallback((mode: RestoreMode) => {
+    if (mode === "replace") {
+      // the current conversation was cleared with the rest; the next turn starts a new one
+      sessionIdRef.current = null;
+      sessionSummaryRef.current = { text: "", coveredCount: 0 };
+    }
+    runReembedding();
+  }, [runReembedding]);
+  // --- End Memory Maintenance ---
+
+  // --- Input Mode ---
+  const switchInputMode = useCallback((mode: "voice" | "keyboard") => {
+    if (mode === "keyboard" && isRecording) {
+      stopRecordingWhisper();
+    }
+    localStorage.setItem("os1_inputMode", mode);
+    setInputMode(mode);
+  }, [isRecording, stopRecordingWhisper]);
+
+  const handleTypedSubmit = useCallback((text: string, { speakReply }: { speakReply: boolean }) => {
+    // typing the same thing twice is deliberate, unlike a repeated transcription
+    lastSubmittedTextRef.current = "";
+    handleSubmit(text, { speakReply });
+  }, [handleSubmit]);
+  // --- End Input Mode ---
 
   // --- Mic UI hint text ---
   const micIsReady = transcriptionReady && !recorderError;
@@ -604,9 +1071,11 @@ export function LlamaChat() {
     ? "Microphone unavailable. Check browser permissions."
     : !transcriptionReady
       ? "Loading voice…"
-      : isRecording
-        ? "Listening… tap to stop"
-        : "Click the mic, then speak";
+      : toolActivity
+        ? toolActivity
+        : isRecording
+          ? "Listening… tap to stop"
+          : "Click the mic, then speak";
 
   return (
     <div className="os1-container">
@@ -648,31 +1117,100 @@ export function LlamaChat() {
           {/* Visualizer removed */}
           
           <div className="mic-dock">
-            <div className="mic-button-wrapper">
-              <button
-                className={`mic-button ${isRecording ? 'recording' : ''} ${micIsReady && !isRecording ? 'ready' : ''}`}
-                onClick={() => {
-                  if (isRecording) {
-                    stopRecordingWhisper();
-                  } else {
-                    // Clear last submitted text when starting new recording
-                    lastSubmittedTextRef.current = "";
-                    startRecordingWhisper();
-                  }
-                }}
-                disabled={!!recorderError}
-                title={recorderError ? recorderError : (isRecording ? "Stop recording" : "Start recording")}
-                aria-label={isRecording ? "Stop recording" : "Start recording"}
-              >
-                {isRecording ? <MicOff className="icon" /> : <Mic className="icon" />}
-              </button>
-              <div className="mic-hint" aria-live="polite">{micHint}</div>
-            </div>
+            {inputMode === "keyboard" ? (
+              <div className="composer-wrapper">
+                <Composer onSubmit={handleTypedSubmit} disabled={isProcessing} />
+                <button className="input-mode-button" onClick={() => switchInputMode("voice")}>
+                  <Mic size={16} /> Use voice
+                </button>
+              </div>
+            ) : (
+              <div className="mic-button-wrapper">
+                <button
+                  className={`mic-button ${isRecording ? 'recording' : ''} ${micIsReady && !isRecording ? 'ready' : ''}`}
+                  onClick={() => {
+                    if (isRecording) {
+                      stopRecordingWhisper();
+                    } else {
+                      // Clear last submitted text when starting new recording
+                      lastSubmittedTextRef.current = "";
+                      startRecordingWhisper();
+                    }
+                  }}
+                  disabled={!!recorderError}
+                  title={recorderError ? recorderError : (isRecording ? "Stop recording" : "Start recording")}
+                  aria-label={isRecording ? "Stop recording" : "Start recording"}
+                >
+                  {isRecording ? <MicOff className="icon" /> : <Mic className="icon" />}
+                </button>
+                <div className="mic-hint" aria-live="polite">{micHint}</div>
+                <button className="input-mode-button" onClick={() => switchInputMode("keyboard")}>
+                  <Keyboard size={16} /> Type instead
+                </button>
+              </div>
+            )}
           </div>
 
-          {/* MemoryViewer omitted in mic-only UI */}
+          <TranscriptPanel
+            isOpen={showTranscript}
+            messages={messages}
+            liveTranscript={liveTranscript}
+            isTranscribing={isTranscribing}
+            spokenText={spokenText}
+            onOpenMemory={id => {
+              setShowHistory(false);
+              setCitedMemoryId(id);
+              setShowMemories(true);
+            }}
+          />
+          <button
+            className={`transcript-toggle ${showTranscript ? 'active' : ''}`}
+            onClick={() => setShowTranscript(open => {
+              localStorage.setItem("os1_showTranscript", String(!open));
+              return !open;
+            })}
+            title={showTranscript ? "Hide transcript" : "Show transcript"}
+            aria-label={showTranscript ? "Hide transcript" : "Show transcript"}
+            aria-pressed={showTranscript}
+          >
+            <Captions size={22} />
+          </button>
+
+          <button
+            className={`memory-toggle ${showMemories ? 'active' : ''}`}
+            onClick={() => {
+              setShowHistory(false);
+              setCitedMemoryId(null);
+              setShowMemories(open => !open);
+            }}
+            title="Memories"
+            aria-label="Memories"
+          >
+            <Brain size={22} />
+          </button>
+          <MemoryViewer isOpen={showMemories} onClose={() => setShowMemories(false)} focusMemoryId={citedMemoryId} />
+
+          <button
+            className={`history-toggle ${showHistory ? 'active' : ''}`}
+            onClick={() => {
+              setShowMemories(false);
+              setShowHistory(open => !open);
+            }}
+            title="Conversation history"
+            aria-label="Conversation history"
+          >
+            <History size={22} />
+          </button>
+          <HistoryBrowser
+            isOpen={showHistory}
+            onClose={() => setShowHistory(false)}
+            onSessionDeleted={handleSessionDeleted}
+            onBackupRestored={handleBackupRestored}
+            onMemoryLockChange={setMemoryLock}
+          />
         </>
       )}
+      {memoryLock === "locked" && <UnlockPrompt onUnlocked={() => setMemoryLock("unlocked")} />}
       <div ref={messageEndRef} />
     </div>
   );
@@ -1,47 +1,433 @@
-import { Trash2 } from 'lucide-react';
-import type { MemoryRecord } from '@/lib/memory';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Check, Info, Pencil, Pin, PinOff, Trash2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  deleteMemories,
+  deleteMemory,
+  editMemory,
+  findSimilarMemories,
+  getAllMemories,
+  setMemoryPinned,
+  type MemoryRecord,
+  type MemorySearchResult,
+} from '@/lib/memory';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './select';
+import { Textarea } from './textarea';
 
 interface MemoryViewerProps {
   isOpen: boolean;
-  memories: MemoryRecord[];
-  onDelete: (id: number) => void;
-  isLoading: boolean;
+  onClose: () => void;
+  focusMemoryId?: number | null; // a memory to show on opening, from a transcript citation
 }
 
-export function MemoryViewer({ isOpen, memories, onDelete, isLoading }: MemoryViewerProps) {
+type RoleFilter = 'all' | 'user' | 'assistant';
+// archived and merged memories are kept out of search, but still stored and exported
+type StatusFilter = 'active' | 'archived' | 'merged';
+type DateFilter = 'all' | 'day' | 'week' | 'month' | 'older';
 
-  const formatDate = (timestamp: number) => {
-    const date = new Date(timestamp);
-    return date.toLocaleString(); 
+// a listed memory, with the parts of its score when it came from a search
+interface MemoryEntry {
+  memory: MemoryRecord;
+  scores?: MemorySearchResult;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// how far back each date filter reaches; 'older' is everything before a month ago
+const DATE_FILTER_MS = { day: DAY_MS, week: 7 * DAY_MS, month: 30 * DAY_MS };
+const SEARCH_RESULTS = 50;
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString();
+const formatScore = (value: number | undefined) => (value ?? 0).toFixed(2);
+
+function statusOf(memory: MemoryRecord): StatusFilter {
+  if (memory.consolidatedInto !== undefined) return 'merged';
+  if (memory.archivedAt !== undefined) return 'archived';
+  return 'active';
+}
+
+function inDateRange(timestamp: number, filter: DateFilter, now: number): boolean {
+  if (filter === 'all') return true;
+  if (filter === 'older') return now - timestamp > DATE_FILTER_MS.month;
+  return now - timestamp <= DATE_FILTER_MS[filter];
+}
+
+// pinned first, then newest
+function byPinnedThenNewest(a: MemoryRecord, b: MemoryRecord): number {
+  return Number(!!b.pinned) - Number(!!a.pinned) || b.timestamp - a.timestamp;
+}
+
+// where a cited memory lives now: itself, or the memory consolidation merged it into, if
+// that's still stored
+function resolveCited(id: number, records: MemoryRecord[]): MemoryRecord | undefined {
+  const byId = new Map(records.map(record => [record.id, record]));
+  let record = byId.get(id);
+  for (let hops = 0; record?.consolidatedInto !== undefined && byId.has(record.consolidatedInto) && hops < records.length; hops++) {
+    record = byId.get(record.consolidatedInto);
+  }
+  return record;
+}
+
+export function MemoryViewer({ isOpen, onClose, focusMemoryId = null }: MemoryViewerProps) {
+  const [memories, setMemories] = useState<MemoryRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [query, setQuery] = useState('');
+  // null while not searching, so the whole list shows
+  const [results, setResults] = useState<MemorySearchResult[] | null>(null);
+  const [roleFilter, setRoleFilter] = useState<RoleFilter>('all');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('active');
+  const [dateFilter, setDateFilter] = useState<DateFilter>('all');
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [editing, setEditing] = useState<{ id: number; text: string } | null>(null);
+  const [explained, setExplained] = useState<number | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [cited, setCited] = useState<number | null>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  // resolves with every stored record, consolidated ones included, for following a citation
+  const refresh = useCallback(async (): Promise<MemoryRecord[]> => {
+    setIsLoading(true);
+    try {
+      const records = await getAllMemories();
+      setMemories([...records].sort(byPinnedThenNewest));
+      return records;
+    } catch (error) {
+      console.error('Failed to load memories:', error);
+      toast.error('Failed to load memories.');
+      return [];
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      refresh().then(records => {
+        if (focusMemoryId === null) return;
+        const memory = resolveCited(focusMemoryId, records);
+        if (!memory) {
+          toast.info('That memory is no longer stored.');
+          return;
+        }
+        // clear whatever would hide it
+        setQuery('');
+        setResults(null);
+        setRoleFilter('all');
+        setDateFilter('all');
+        setStatusFilter(statusOf(memory));
+        setCited(memory.id);
+      });
+    } else {
+      setSelected(new Set());
+      setEditing(null);
+      setCited(null);
+    }
+  }, [isOpen, focusMemoryId, refresh]);
+
+  useEffect(() => {
+    if (cited === null) return;
+    listRef.current?.querySelector(`[data-memory-id="${cited}"]`)?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [cited]);
+
+  // search as the user types, once they pause; this embeds the query, so wait a little longer than the history search.
+  // Only active memories are searchable; the others are matched by their text below
+  useEffect(() => {
+    if (!query.trim() || statusFilter !== 'active') {
+      setResults(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      findSimilarMemories(query, { topK: SEARCH_RESULTS })
+        .then(found => {
+          if (!cancelled) setResults(found);
+        })
+        .catch((error: unknown) => console.error('Memory search failed:', error));
+    }, 400);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, statusFilter]);
+
+  const entries = useMemo<MemoryEntry[]>(() => {
+    const byId = new Map(memories.map(memory => [memory.id, memory]));
+    const needle = query.trim().toLowerCase();
+    const listed = results
+      ? results.flatMap(scores => {
+          const memory = byId.get(scores.id);
+          return memory ? [{ memory, scores }] : [];
+        })
+      : memories
+          .filter(memory => !needle || statusFilter === 'active' || memory.text.toLowerCase().includes(needle))
+          .map(memory => ({ memory }));
+    const now = Date.now();
+    return listed.filter(({ memory }) =>
+      statusOf(memory) === statusFilter
+      && (roleFilter === 'all' || memory.role === roleFilter)
+      && inDateRange(memory.timestamp, dateFilter, now));
+  }, [memories, results, query, statusFilter, roleFilter, dateFilter]);
+
+  // bulk actions only reach what the filters leave on screen
+  const selectedIds = entries.filter(({ memory }) => selected.has(memory.id)).map(({ memory }) => memory.id);
+  const allSelected = entries.length > 0 && selectedIds.length === entries.length;
+
+  const toggleSelected = (id: number) => {
+    setSelected(current => {
+      const next = new Set(current);
+      if (!next.delete(id)) next.add(id);
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelected(allSelected ? new Set() : new Set(entries.map(({ memory }) => memory.id)));
+  };
+
+  const forget = (ids: number[]) => {
+    const removed = new Set(ids);
+    setMemories(current => current.filter(memory => !removed.has(memory.id)));
+    setResults(current => current && current.filter(result => !removed.has(result.id)));
+    setSelected(current => new Set([...current].filter(id => !removed.has(id))));
+  };
+
+  const handleDelete = async (id: number) => {
+    try {
+      forget(await deleteMemory(id));
+    } catch (error) {
+      console.error('Failed to delete memory:', error);
+      toast.error('Failed to delete this memory.');
+    }
+  };
+
+  const handleBulkDelete = async () => {
+    if (selectedIds.length === 0) return;
+    const count = selectedIds.length;
+    if (!window.confirm(`Delete ${count} ${count === 1 ? 'memory' : 'memories'}? This cannot be undone.`)) return;
+    setIsBusy(true);
+    try {
+      // consolidated memories take their originals with them
+      forget(await deleteMemories(selectedIds));
+      toast.success(`Deleted ${count} ${count === 1 ? 'memory' : 'memories'}.`);
+    } catch (error) {
+      console.error('Failed to delete memories:', error);
+      toast.error('Failed to delete the selected memories.');
+      await refresh();
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editing) return;
+    const text = editing.text.trim();
+    if (!text || text === memories.find(memory => memory.id === editing.id)?.text) {
+      setEditing(null);
+      return;
+    }
+    setIsBusy(true);
+    try {
+      const updated = await editMemory(editing.id, text);
+      if (updated) {
+        setMemories(current => current.map(memory => (memory.id === updated.id ? updated : memory)));
+      }
+      setEditing(null);
+    } catch (error) {
+      console.error('Failed to edit memory:', error);
+      toast.error('Failed to save this memory.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleTogglePin = async (memory: MemoryRecord) => {
+    try {
+      await setMemoryPinned(memory.id, !memory.pinned);
+      setMemories(current => current
+        .map(entry => (entry.id === memory.id ? { ...entry, pinned: !memory.pinned } : entry))
+        .sort(byPinnedThenNewest));
+    } catch (error) {
+      console.error('Failed to pin memory:', error);
+      toast.error('Failed to update this memory.');
+    }
   };
 
   return (
-    <div className={`memory-viewer ${isOpen ? 'open' : ''}`}>
+    <div className={`memory-viewer ${isOpen ? 'open' : ''}`} aria-hidden={!isOpen}>
+      <div className="history-header">
+        <h2 className="history-title">Memories</h2>
+        <button className="history-icon-button" onClick={onClose} title="Close memories">
+          <X size={18} />
+        </button>
+      </div>
+
+      <input
+        className="history-search"
+        type="search"
+        placeholder="Search memories"
+        value={query}
+        onChange={event => setQuery(event.target.value)}
+      />
+      <div className="history-toolbar">
+        <Select value={roleFilter} onValueChange={value => setRoleFilter(value as RoleFilter)}>
+          <SelectTrigger className="history-select">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Anyone</SelectItem>
+            <SelectItem value="user">You</SelectItem>
+            <SelectItem value="assistant">Samantha</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={dateFilter} onValueChange={value => setDateFilter(value as DateFilter)}>
+          <SelectTrigger className="history-select">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Any time</SelectItem>
+            <SelectItem value="day">Last 24 hours</SelectItem>
+            <SelectItem value="week">Last 7 days</SelectItem>
+            <SelectItem value="month">Last 30 days</SelectItem>
+            <SelectItem value="older">Older</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="history-toolbar">
+        <input
+          className="memory-checkbox"
+          type="checkbox"
+          checked={allSelected}
+          onChange={toggleAll}
+          disabled={entries.length === 0}
+          aria-label="Select all memories shown"
+        />
+        <Select
+          value={statusFilter}
+          onValueChange={value => {
+            setStatusFilter(value as StatusFilter);
+            setSelected(new Set());
+          }}
+        >
+          <SelectTrigger className="history-select" aria-label="Which memories to show">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="active">Active</SelectItem>
+            <SelectItem value="archived">Archived</SelectItem>
+            <SelectItem value="merged">Merged</SelectItem>
+          </SelectContent>
+        </Select>
+        <span className="history-meta">
+          {selectedIds.length > 0
+            ? `${selectedIds.length} selected`
+            : `${entries.length} ${entries.length === 1 ? 'memory' : 'memories'}`}
+        </span>
+        <button
+          className="history-icon-button danger"
+          onClick={handleBulkDelete}
+          disabled={isBusy || selectedIds.length === 0}
+          title="Delete selected memories"
+        >
+          <Trash2 size={18} />
+        </button>
+      </div>
+
       {isLoading ? (
         <div className="memory-loading">Loading memories...</div>
-      ) : memories.length === 0 ? (
-        <div className="memory-empty">No memories found.</div>
+      ) : entries.length === 0 ? (
+        <div className="memory-empty">{query.trim() ? 'No matching memories.' : 'No memories found.'}</div>
       ) : (
-        <ul className="memory-list">
-          {memories.map((memory) => (
-            <li key={memory.id} className="memory-item">
+        <ul className="memory-list" ref={listRef}>
+          {entries.map(({ memory, scores }) => (
+            <li
+              key={memory.id}
+              className={`memory-item ${memory.pinned ? 'pinned' : ''} ${cited === memory.id ? 'cited' : ''}`}
+              data-memory-id={memory.id}
+            >
+              <input
+                className="memory-checkbox"
+                type="checkbox"
+                checked={selected.has(memory.id)}
+                onChange={() => toggleSelected(memory.id)}
+                aria-label="Select memory"
+              />
               <div className="memory-item-content">
-                <p className="memory-text">{memory.text}</p>
+                {editing?.id === memory.id ? (
+                  <>
+                    <Textarea
+                      className="memory-edit"
+                      value={editing.text}
+                      onChange={event => setEditing({ id: memory.id, text: event.target.value })}
+                      autoFocus
+                    />
+                    <div className="history-toolbar">
+                      <button className="backup-button" onClick={handleSaveEdit} disabled={isBusy || !editing.text.trim()}>
+                        <Check size={16} /> Save
+                      </button>
+                      <button className="backup-button" onClick={() => setEditing(null)} disabled={isBusy}>
+                        Cancel
+                      </button>
+                    </div>
+                  </>
+                ) : (
+                  <p className="memory-text">{memory.text}</p>
+                )}
                 <p className="memory-meta">
-                  Added: {formatDate(memory.timestamp)}
+                  {memory.role === 'user' ? 'You' : 'Samantha'} · {formatDate(memory.timestamp)}
+                  {memory.kind ? ` · ${memory.kind}` : ''}
+                  {memory.pinned ? ' · pinned' : ''}
+                  {memory.archivedAt !== undefined ? ` · archived ${formatDate(memory.archivedAt)}` : ''}
+                  {memory.consolidatedInto !== undefined ? ' · merged into a newer memory' : ''}
                 </p>
+                {scores && explained === memory.id && (
+                  <dl className="memory-scores">
+                    <dt>Similarity</dt>
+                    <dd>{formatScore(scores.similarity)}</dd>
+                    <dt>Keyword match</dt>
+                    <dd>{formatScore(scores.lexicalScore)}</dd>
+                    <dt>Recency</dt>
+                    <dd>{formatScore(scores.recency)}</dd>
+                    <dt>Importance</dt>
+                    <dd>{formatScore(scores.importance)}</dd>
+                    <dt>Relevance</dt>
+                    <dd>{formatScore(scores.relevance)}</dd>
+                  </dl>
+                )}
+              </div>
+              <div className="memory-actions">
+                {scores && (
+                  <button
+                    className={`history-icon-button ${explained === memory.id ? 'active' : ''}`}
+                    onClick={() => setExplained(current => (current === memory.id ? null : memory.id))}
+                    title="Why was this retrieved?"
+                  >
+                    <Info size={16} />
+                  </button>
+                )}
+                {statusOf(memory) === 'active' && (
+                  <button
+                    className={`history-icon-button ${memory.pinned ? 'active' : ''}`}
+                    onClick={() => handleTogglePin(memory)}
+                    title={memory.pinned ? 'Unpin memory' : 'Pin memory'}
+                  >
+                    {memory.pinned ? <PinOff size={16} /> : <Pin size={16} />}
+                  </button>
+                )}
+                <button
+                  className="history-icon-button"
+                  onClick={() => setEditing({ id: memory.id, text: memory.text })}
+                  disabled={isBusy}
+                  title="Edit memory"
+                >
+                  <Pencil size={16} />
+                </button>
+                <button className="history-icon-button danger" onClick={() => handleDelete(memory.id)} title="Delete memory">
+                  <Trash2 size={16} />
+                </button>
               </div>
-              <button
-                className="memory-delete-button"
-                onClick={() => onDelete(memory.id)}
-                title="Delete Memory"
-              >
-                <Trash2 size={16} />
-              </button>
             </li>
           ))}
         </ul>
       )}
     </div>
   );
-} 
\ No newline at end of file
+}
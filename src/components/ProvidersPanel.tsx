@@ -0,0 +1,131 @@
+import { useState } from 'react';
+import { RotateCcw, Save } from 'lucide-react';
+import {
+  getProviderConfig,
+  getProviderOverrides,
+  setProviderSettings,
+  type Capability,
+  type ProviderConfig,
+  type ProviderKind,
+  type ProviderSettings,
+} from '@/lib/providers';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './select';
+
+const KIND_LABELS: Record<ProviderKind, string> = {
+  openai: 'OpenAI',
+  'openai-compatible': 'OpenAI-compatible server',
+  transformers: 'In the browser',
+};
+
+const CAPABILITIES: { capability: Capability; label: string; kinds: ProviderKind[] }[] = [
+  { capability: 'chat', label: 'Chat', kinds: ['openai', 'openai-compatible', 'transformers'] },
+  // there is no in-browser text-to-speech model
+  { capability: 'tts', label: 'Voice', kinds: ['openai', 'openai-compatible'] },
+  { capability: 'transcription', label: 'Transcription', kinds: ['openai', 'openai-compatible', 'transformers'] },
+  { capability: 'embedding', label: 'Memory embeddings', kinds: ['openai', 'openai-compatible', 'transformers'] },
+];
+
+// the in-browser provider runs fixed models, except for embeddings
+function hasModel(capability: Capability, kind: ProviderKind): boolean {
+  return kind !== 'transformers' || capability === 'embedding';
+}
+
+// blank fields are left out, so they keep following the .env defaults
+function withoutBlanks({ kind, baseURL, apiKey, model }: ProviderSettings): ProviderSettings {
+  return { kind, ...(baseURL && { baseURL }), ...(apiKey && { apiKey }), ...(model && { model }) };
+}
+
+/**
+ * Picks the provider for each capability. The workers and the embedding and transcription
+ * services read their provider once, when they start, so saving reloads the app.
+ */
+export function ProvidersPanel() {
+  const [active] = useState<ProviderConfig>(getProviderConfig);
+  const [draft, setDraft] = useState<Partial<ProviderConfig>>(getProviderOverrides);
+
+  const update = (capability: Capability, changes: Partial<ProviderSettings>) => {
+    setDraft(current => ({
+      ...current,
+      [capability]: { ...(current[capability] ?? { kind: active[capability].kind }), ...changes },
+    }));
+  };
+
+  const confirmReload = () => window.confirm('Reload now to switch providers? The current conversation is picked up again.');
+
+  const handleSave = () => {
+    if (!confirmReload()) return;
+    for (const { capability } of CAPABILITIES) {
+      const settings = draft[capability];
+      setProviderSettings(capability, settings ? withoutBlanks(settings) : null);
+    }
+    window.location.reload();
+  };
+
+  const handleReset = () => {
+    if (!confirmReload()) return;
+    for (const { capability } of CAPABILITIES) {
+      setProviderSettings(capability, null);
+    }
+    window.location.reload();
+  };
+
+  return (
+    <div className="backup-panel">
+      {CAPABILITIES.map(({ capability, label, kinds }) => {
+        const settings = draft[capability] ?? { kind: active[capability].kind };
+        return (
+          <section className="backup-section" key={capability}>
+            <h3 className="backup-heading">{label}</h3>
+            <Select value={settings.kind} onValueChange={kind => update(capability, { kind: kind as ProviderKind, baseURL: undefined, apiKey: undefined, model: undefined })}>
+              <SelectTrigger className="history-select">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {kinds.map(kind => (
+                  <SelectItem key={kind} value={kind}>{KIND_LABELS[kind]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {settings.kind === 'openai-compatible' && (
+              <input
+                className="history-search"
+                placeholder="Server URL (default from .env)"
+                value={settings.baseURL ?? ''}
+                onChange={event => update(capability, { baseURL: event.target.value })}
+              />
+            )}
+            {settings.kind !== 'transformers' && (
+              <input
+                className="history-search"
+                type="password"
+                placeholder="API key (default from .env)"
+                autoComplete="off"
+                value={settings.apiKey ?? ''}
+                onChange={event => update(capability, { apiKey: event.target.value })}
+              />
+            )}
+            {hasModel(capability, settings.kind) && (
+              <input
+                className="history-search"
+                placeholder="Model (default from .env)"
+                value={settings.model ?? ''}
+                onChange={event => update(capability, { model: event.target.value })}
+              />
+            )}
+          </section>
+        );
+      })}
+      <p className="history-meta">
+        Keys are kept in this browser. After a change of embedding model, memories are re-embedded in the background.
+      </p>
+      <div className="history-toolbar">
+        <button className="backup-button" onClick={handleSave}>
+          <Save size={16} /> Save and reload
+        </button>
+        <button className="backup-button" onClick={handleReset}>
+          <RotateCcw size={16} /> Reset to .env defaults
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import { useEffect, useRef } from 'react';
+import { stripCitations } from '@/lib/citations';
+import type { Message } from '@/types/chat';
+
+interface TranscriptPanelProps {
+  isOpen: boolean;
+  messages: Message[];
+  liveTranscript: string; // what the recorder heard, before it shows up as a message
+  isTranscribing: boolean;
+  spokenText: string | null; // the sentence TTS is playing right now
+  onOpenMemory?: (id: number) => void; // a citation was clicked
+}
+
+// speakText strips asterisks before TTS, and citation tags never reach it (see LlamaChat), so
+// match against the same text; a streaming reply still has its tags in
+const stripForSpeech = (text: string) => stripCitations(text).replace(/\*/g, '');
+
+function renderWithHighlight(text: string, spokenText: string | null) {
+  const index = spokenText ? text.indexOf(spokenText) : -1;
+  if (!spokenText || index === -1) return text;
+  return (
+    <>
+      {text.slice(0, index)}
+      <mark className="transcript-speaking">{spokenText}</mark>
+      {text.slice(index + spokenText.length)}
+    </>
+  );
+}
+
+export function TranscriptPanel({ isOpen, messages, liveTranscript, isTranscribing, spokenText, onOpenMemory }: TranscriptPanelProps) {
+  const endRef = useRef<HTMLDivElement>(null);
+  const lastAssistantIndex = messages.map(message => message.role).lastIndexOf('assistant');
+
+  useEffect(() => {
+    if (isOpen) {
+      endRef.current?.scrollIntoView({ block: 'end' });
+    }
+  }, [isOpen, messages, liveTranscript, isTranscribing]);
+
+  return (
+    <div
+      className={`transcript-panel ${isOpen ? 'open' : ''}`}
+      role="log"
+      aria-live="polite"
+      aria-label="Conversation transcript"
+      aria-hidden={!isOpen}
+    >
+      <ul className="transcript-list">
+        {messages
+          .map((message, index) => ({ message, index }))
+          .filter(({ message }) => message.role !== 'system')
+          .map(({ message, index }) => (
+            <li key={index} className={`transcript-line ${message.role}`}>
+              <span className="transcript-speaker">{message.role === 'user' ? 'You' : 'Samantha'}</span>
+              <p className="transcript-text">
+                {message.role === 'assistant'
+                  ? renderWithHighlight(stripForSpeech(message.content), index === lastAssistantIndex ? spokenText : null)
+                  : message.content}
+                {message.role === 'assistant' && !stripForSpeech(message.content) && <span className="transcript-pending">…</span>}
+              </p>
+              {message.citations && message.citations.length > 0 && (
+                <div className="transcript-citations" aria-label="Memories this reply drew on">
+                  {message.citations.map((id, i) => (
+                    <button
+                      key={id}
+                      type="button"
+                      className="transcript-citation"
+                      onClick={() => onOpenMemory?.(id)}
+                      title="Open this memory"
+                      tabIndex={isOpen ? undefined : -1}
+                    >
+                      {i + 1}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </li>
+          ))}
+        {(liveTranscript || isTranscribing) && (
+          <li className="transcript-line user live">
+            <span className="transcript-speaker">You</span>
+            <p className="transcript-text">
+              {liveTranscript || <span className="transcript-pending">Transcribing…</span>}
+            </p>
+          </li>
+        )}
+      </ul>
+      <div ref={endRef} />
+    </div>
+  );
+}
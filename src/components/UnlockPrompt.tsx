@@ -0,0 +1,55 @@
+import { useState, type FormEvent } from 'react';
+import { unlockMemories } from '@/lib/memory';
+
+interface UnlockPromptProps {
+  onUnlocked: () => void;
+}
+
+// shown over everything while the memory store is encrypted and locked
+export function UnlockPrompt({ onUnlocked }: UnlockPromptProps) {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setIsBusy(true);
+    setError(null);
+    try {
+      if (await unlockMemories(passphrase)) {
+        setPassphrase('');
+        onUnlocked();
+      } else {
+        setError('That passphrase is not right.');
+      }
+    } catch (unlockError) {
+      console.error('Unlocking memories failed:', unlockError);
+      setError('Could not unlock memories.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="guide-overlay">
+      <form className="guide-content unlock-form" onSubmit={handleSubmit}>
+        <div className="guide-icon">🔒</div>
+        <h3>Memories are locked</h3>
+        <p>Enter your passphrase so Samantha can remember you.</p>
+        <input
+          className="history-search"
+          type="password"
+          placeholder="Passphrase"
+          autoComplete="current-password"
+          autoFocus
+          value={passphrase}
+          onChange={event => setPassphrase(event.target.value)}
+        />
+        {error && <p className="unlock-error" role="alert">{error}</p>}
+        <button className="guide-close-btn" type="submit" disabled={isBusy || !passphrase}>
+          {isBusy ? 'Unlocking…' : 'Unlock'}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+// Sentence embeddings for memory, in the browser, so memory keeps working offline
+import { pipeline } from '@huggingface/transformers';
+
+/**
+* This class uses the Singleton pattern to ensure that only one instance of the model is loaded.
+*/
+class FeatureExtractionPipeline {
+  static model_id = null;
+  static extractor = null;
+
+  static async getInstance(model_id, progress_callback = null) {
+      this.model_id = model_id;
+
+      // small embedding models run fine on the CPU, so WebGPU is only used when it's there
+      const device = navigator.gpu ? 'webgpu' : 'wasm';
+      this.extractor ??= pipeline('feature-extraction', this.model_id, {
+          device,
+          dtype: device === 'webgpu' ? 'fp32' : 'q8',
+          progress_callback,
+      });
+
+      return this.extractor;
+  }
+}
+
+async function load({ model }) {
+  self.postMessage({
+      status: 'loading',
+      data: 'Loading model...'
+  });
+
+  try {
+      await FeatureExtractionPipeline.getInstance(model, x => {
+          // We also add a progress callback to the pipeline so that we can
+          // track model loading.
+          self.postMessage(x);
+      });
+  } catch (error) {
+      self.postMessage({ status: 'error', data: error.message });
+      return;
+  }
+
+  self.postMessage({ status: 'ready' });
+}
+
+// requests carry an id because several can be waiting at once
+async function embed({ id, texts }) {
+  try {
+      const extractor = await FeatureExtractionPipeline.getInstance(FeatureExtractionPipeline.model_id);
+      // mean pooling + normalization is how the sentence-transformers models are meant to be used
+      const output = await extractor(texts, { pooling: 'mean', normalize: true });
+      self.postMessage({ status: 'complete', id, output: output.tolist() });
+  } catch (error) {
+      self.postMessage({ status: 'error', id, data: error.message });
+  }
+}
+
+// Listen for messages from the main thread
+self.addEventListener('message', async (e) => {
+  const { type, data } = e.data;
+
+  switch (type) {
+      case 'load':
+          load(data);
+          break;
+
+      case 'embed':
+          embed(data);
+          break;
+  }
+});
@@ -9,12 +9,17 @@ const MAX_AUDIO_LENGTH = 30; // seconds
 const SILENCE_THRESHOLD = 0.003;
 const SILENCE_DURATION_MS = 2000;
 const DEBOUNCE_INTERVAL_MS = 1000;
+// live voice activity detection, used for barge-in
+const VOICE_POLL_INTERVAL_MS = 100;
+const SPEECH_START_THRESHOLD = 0.02; // RMS, well above the silence threshold to ignore echo
+const SPEECH_START_MIN_MS = 300;
 
 interface UseOpenAIRecorderProps {
   onTranscriptionUpdate: (text: string) => void;
   onRecordingStateChange?: (isRecording: boolean) => void;
   onTranscriptionComplete?: (text: string) => void;
   onSilenceDetected?: (text: string, audioData: Float32Array | null) => void;
+  onSpeechStart?: () => void;
 }
 
 interface UseOpenAIRecorderReturn {
@@ -31,6 +36,7 @@ export function useOpenAIRecorder({
   onTranscriptionUpdate,
   onRecordingStateChange,
   onSilenceDetected,
+  onSpeechStart,
 }: UseOpenAIRecorderProps): UseOpenAIRecorderReturn {
   // Internal State
   const [isRecording, setIsRecording] = useState(false);
@@ -65,6 +71,14 @@ export function useOpenAIRecorder({
   const lastProcessedChunksHashRef = useRef<string | null>(null);
   const hasHeaderRef = useRef<boolean>(false);
 
+  // Voice Activity Refs
+  const analyserRef = useRef<AnalyserNode | null>(null);
+  const onSpeechStartRef = useRef(onSpeechStart);
+
+  useEffect(() => {
+    onSpeechStartRef.current = onSpeechStart;
+  }, [onSpeechStart]);
+
   useEffect(() => {
     isRecordingRef.current = isRecording;
     if (onRecordingStateChange) {
@@ -72,14 +86,15 @@ export function useOpenAIRecorder({
     }
   }, [isRecording, onRecordingStateChange]);
 
-  // Initialize OpenAI Service
+  // Initialize the transcription provider
   useEffect(() => {
     try {
       openaiService.current = new OpenAIService();
+      openaiService.current.getTranscriptionProvider();
       setTranscriptionReady(true);
       setError(null);
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Failed to initialize OpenAI service';
+      const errorMessage = error instanceof Error ? error.message : 'Failed to initialize transcription provider';
       setError(errorMessage);
       setTranscriptionReady(false);
     }
@@ -111,6 +126,11 @@ export function useOpenAIRecorder({
       audioContextInstance = new AudioContext({ sampleRate: WHISPER_SAMPLING_RATE });
       audioContextRef.current = audioContextInstance;
 
+      const analyser = audioContextInstance.createAnalyser();
+      analyser.fftSize = 1024;
+      audioContextInstance.createMediaStreamSource(stream).connect(analyser);
+      analyserRef.current = analyser;
+
       const mimeTypes = [
         'audio/webm;codecs=opus', 'audio/webm', 'audio/mp4', 'audio/mp3', 'audio/wav'
       ];
@@ -189,6 +209,7 @@ export function useOpenAIRecorder({
       
       recorderRef.current = null;
       audioContextRef.current = null;
+      analyserRef.current = null;
       setMicStream(null);
       if (isRecordingRef.current) {
         setIsRecording(false);
@@ -448,6 +469,40 @@ export function useOpenAIRecorder({
     }
   }, [isRecording, startPeriodicProcessing, stopPeriodicProcessing]);
 
+  // Report the start of each stretch of speech as soon as it is loud and long enough
+  useEffect(() => {
+    if (!isRecording) return;
+
+    const samples = new Float32Array(1024);
+    let speechStartedAt: number | null = null;
+    let reported = false;
+
+    const interval = window.setInterval(() => {
+      const analyser = analyserRef.current;
+      if (!analyser) return;
+      analyser.getFloatTimeDomainData(samples);
+      let sumOfSquares = 0;
+      for (let i = 0; i < samples.length; i++) {
+        sumOfSquares += samples[i] * samples[i];
+      }
+      const rms = Math.sqrt(sumOfSquares / samples.length);
+
+      if (rms < SPEECH_START_THRESHOLD) {
+        speechStartedAt = null;
+        reported = false;
+        return;
+      }
+      const now = Date.now();
+      speechStartedAt ??= now;
+      if (!reported && now - speechStartedAt >= SPEECH_START_MIN_MS) {
+        reported = true;
+        onSpeechStartRef.current?.();
+      }
+    }, VOICE_POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [isRecording]);
+
   const clearRecorderRefresh = useCallback(() => {
     if (recorderRefreshTimeoutRef.current) {
       window.clearTimeout(recorderRefreshTimeoutRef.current);
@@ -520,6 +575,8 @@ export function useOpenAIRecorder({
       resetSilenceTimer();
       hasTranscribedSpeechRef.current = false;
       recorderRef.current.start(500);
+      // created outside a user gesture, so it may have started suspended
+      audioContextRef.current?.resume().catch(() => {});
       setIsRecording(true);
       if (!transcriptionReady) {
         console.warn("Starting recording before transcription service flagged ready");
@@ -95,8 +95,8 @@ export function useWhisperRecorder({
                 break;
             case 'error':
                 //console.error("Whisper Worker Error:", data);
+                // a failed load never reports 'ready'; a failed transcription leaves the model usable
                 setError(data || 'Error loading Whisper model');
-                setTranscriptionReady(false);
                 setIsTranscribing(false); 
                 break;
             case 'start':
@@ -0,0 +1,207 @@
+import { PROFILE_FACT_KINDS, type ProfileFact } from '../profile';
+import type { MemoryKind, MemoryRecord } from '../memory/indexeddb';
+import type { RetrievalLog, RetrievedMemory } from '../contextBuilder';
+import type { SessionRecord, TurnRecord } from '../sessions';
+import { fromBase64, toBase64 } from '../crypto';
+
+export const BACKUP_FORMAT = 'os1-backup';
+// bump when the bundle changes shape, and teach parseBackupBundle to read the older one
+export const BACKUP_VERSION = 1;
+
+// a memory as written to a backup: the vector as base64 float32, whatever the local encoding
+export interface BackupMemory extends Omit<MemoryRecord, 'embedding' | 'embeddingScale'> {
+  embedding: string;
+}
+
+export interface BackupBundle {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: number;
+  memories: BackupMemory[];
+  profile: ProfileFact[];
+  sessions: SessionRecord[];
+  turns: TurnRecord[];
+}
+
+const MEMORY_KINDS: MemoryKind[] = ['fact', 'event', 'feeling', 'smalltalk'];
+const ROLES = ['user', 'assistant'];
+
+export function encodeEmbedding(embedding: Float32Array): string {
+  return toBase64(new Uint8Array(embedding.buffer, embedding.byteOffset, embedding.byteLength));
+}
+
+export function decodeEmbedding(encoded: string): Float32Array {
+  const bytes = fromBase64(encoded);
+  if (bytes.length % 4 !== 0) {
+    throw new Error('embedding is not a float32 vector');
+  }
+  return new Float32Array(bytes.buffer, bytes.byteOffset, bytes.length / 4);
+}
+
+// --- Validation ---
+// Each check names the first field that's wrong, so a damaged or hand-edited file says why
+// it was rejected. Unknown fields are dropped.
+
+type Fields = Record<string, unknown>;
+
+function invalid(path: string, expected: string): never {
+  throw new Error(`Invalid backup: ${path} should be ${expected}.`);
+}
+
+function object(value: unknown, path: string): Fields {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) invalid(path, 'an object');
+  return value as Fields;
+}
+
+function array(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) invalid(path, 'a list');
+  return value;
+}
+
+function string(value: unknown, path: string): string {
+  if (typeof value !== 'string') invalid(path, 'text');
+  return value;
+}
+
+function number(value: unknown, path: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) invalid(path, 'a number');
+  return value;
+}
+
+function boolean(value: unknown, path: string): boolean {
+  if (typeof value !== 'boolean') invalid(path, 'true or false');
+  return value;
+}
+
+function numberList(value: unknown, path: string): number[] {
+  return array(value, path).map((item, i) => number(item, `${path}[${i}]`));
+}
+
+function optional<T>(value: unknown, path: string, read: (value: unknown, path: string) => T): T | undefined {
+  return value === undefined || value === null ? undefined : read(value, path);
+}
+
+function oneOf<T extends string>(value: unknown, path: string, allowed: readonly T[]): T {
+  if (!allowed.includes(value as T)) invalid(path, `one of ${allowed.join(', ')}`);
+  return value as T;
+}
+
+function readMemory(value: unknown, path: string): BackupMemory {
+  const fields = object(value, path);
+  const memory: BackupMemory = {
+    id: number(fields.id, `${path}.id`),
+    role: oneOf(fields.role, `${path}.role`, ROLES as ('user' | 'assistant')[]),
+    text: string(fields.text, `${path}.text`),
+    timestamp: number(fields.timestamp, `${path}.timestamp`),
+    embedding: string(fields.embedding, `${path}.embedding`),
+    embeddingModel: optional(fields.embeddingModel, `${path}.embeddingModel`, string),
+    dimensions: optional(fields.dimensions, `${path}.dimensions`, number),
+    mergedFrom: optional(fields.mergedFrom, `${path}.mergedFrom`, numberList),
+    consolidatedInto: optional(fields.consolidatedInto, `${path}.consolidatedInto`, number),
+    kind: optional(fields.kind, `${path}.kind`, (kind, kindPath) => oneOf(kind, kindPath, MEMORY_KINDS)),
+    importance: optional(fields.importance, `${path}.importance`, number),
+    accessCount: optional(fields.accessCount, `${path}.accessCount`, number),
+    lastAccessedAt: optional(fields.lastAccessedAt, `${path}.lastAccessedAt`, number),
+    archivedAt: optional(fields.archivedAt, `${path}.archivedAt`, number),
+    pinned: optional(fields.pinned, `${path}.pinned`, boolean),
+  };
+  try {
+    const length = decodeEmbedding(memory.embedding).length;
+    if (memory.dimensions !== undefined && memory.dimensions !== length) throw new Error();
+  } catch {
+    invalid(`${path}.embedding`, `a base64 float32 vector of ${memory.dimensions ?? 'any'} dimensions`);
+  }
+  return memory;
+}
+
+function readProfileFact(value: unknown, path: string): ProfileFact {
+  const fields = object(value, path);
+  const source = object(fields.source, `${path}.source`);
+  return {
+    key: string(fields.key, `${path}.key`),
+    kind: oneOf(fields.kind, `${path}.kind`, PROFILE_FACT_KINDS),
+    subject: string(fields.subject, `${path}.subject`),
+    value: string(fields.value, `${path}.value`),
+    confidence: number(fields.confidence, `${path}.confidence`),
+    updatedAt: number(fields.updatedAt, `${path}.updatedAt`),
+    source: {
+      sessionId: optional(source.sessionId, `${path}.source.sessionId`, string),
+      turnId: optional(source.turnId, `${path}.source.turnId`, number),
+      text: string(source.text, `${path}.source.text`),
+    },
+  };
+}
+
+function readSession(value: unknown, path: string): SessionRecord {
+  const fields = object(value, path);
+  return {
+    id: string(fields.id, `${path}.id`),
+    startedAt: number(fields.startedAt, `${path}.startedAt`),
+    updatedAt: number(fields.updatedAt, `${path}.updatedAt`),
+    summary: optional(fields.summary, `${path}.summary`, string),
+    summaryCoveredCount: optional(fields.summaryCoveredCount, `${path}.summaryCoveredCount`, number),
+  };
+}
+
+function readRetrievedMemory(value: unknown, path: string): RetrievedMemory {
+  const fields = object(value, path);
+  return {
+    id: number(fields.id, `${path}.id`),
+    role: oneOf(fields.role, `${path}.role`, ROLES as ('user' | 'assistant')[]),
+    timestamp: number(fields.timestamp, `${path}.timestamp`),
+    similarity: number(fields.similarity, `${path}.similarity`),
+    lexicalScore: optional(fields.lexicalScore, `${path}.lexicalScore`, number),
+    recency: optional(fields.recency, `${path}.recency`, number),
+    importance: optional(fields.importance, `${path}.importance`, number),
+    relevance: optional(fields.relevance, `${path}.relevance`, number),
+  };
+}
+
+function readRetrieval(value: unknown, path: string): RetrievalLog {
+  const fields = object(value, path);
+  return {
+    query: string(fields.query, `${path}.query`),
+    timestamp: number(fields.timestamp, `${path}.timestamp`),
+    candidates: array(fields.candidates, `${path}.candidates`)
+      .map((candidate, i) => readRetrievedMemory(candidate, `${path}.candidates[${i}]`)),
+    injectedIds: numberList(fields.injectedIds, `${path}.injectedIds`),
+  };
+}
+
+function readTurn(value: unknown, path: string): TurnRecord {
+  const fields = object(value, path);
+  return {
+    id: number(fields.id, `${path}.id`),
+    sessionId: string(fields.sessionId, `${path}.sessionId`),
+    role: oneOf(fields.role, `${path}.role`, ROLES as ('user' | 'assistant')[]),
+    content: string(fields.content, `${path}.content`),
+    timestamp: number(fields.timestamp, `${path}.timestamp`),
+    citations: optional(fields.citations, `${path}.citations`, numberList),
+    retrieval: optional(fields.retrieval, `${path}.retrieval`, readRetrieval),
+  };
+}
+
+/**
+ * Checks a parsed backup file against the bundle schema.
+ * @throws an Error naming the first field that doesn't match
+ */
+export function parseBackupBundle(value: unknown): BackupBundle {
+  const fields = object(value, 'backup');
+  if (fields.format !== BACKUP_FORMAT) {
+    throw new Error('This file is not a Samantha backup.');
+  }
+  const version = number(fields.version, 'version');
+  if (version > BACKUP_VERSION) {
+    throw new Error('This backup was made by a newer version of the app.');
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version,
+    exportedAt: number(fields.exportedAt, 'exportedAt'),
+    memories: array(fields.memories, 'memories').map((memory, i) => readMemory(memory, `memories[${i}]`)),
+    profile: array(fields.profile ?? [], 'profile').map((fact, i) => readProfileFact(fact, `profile[${i}]`)),
+    sessions: array(fields.sessions ?? [], 'sessions').map((session, i) => readSession(session, `sessions[${i}]`)),
+    turns: array(fields.turns ?? [], 'turns').map((turn, i) => readTurn(turn, `turns[${i}]`)),
+  };
+}
@@ -0,0 +1,45 @@
+// Passphrase encryption for backups: a key derived with PBKDF2 (SHA-256), then AES-GCM,
+// which also detects a wrong passphrase or a damaged file.
+
+import { IV_BYTES, PBKDF2_ITERATIONS, SALT_BYTES, deriveKey, fromBase64, toBase64 } from '../crypto';
+
+export const ENCRYPTED_BACKUP_FORMAT = 'os1-backup-encrypted';
+
+export interface EncryptedBackup {
+  format: typeof ENCRYPTED_BACKUP_FORMAT;
+  version: 1;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  cipher: { name: 'AES-GCM'; iv: string };
+  data: string; // base64 ciphertext of the JSON bundle
+}
+
+export function isEncryptedBackup(value: unknown): value is EncryptedBackup {
+  return typeof value === 'object' && value !== null && (value as { format?: unknown }).format === ENCRYPTED_BACKUP_FORMAT;
+}
+
+export async function encryptBackup(plaintext: string, passphrase: string): Promise<EncryptedBackup> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const key = await deriveKey(passphrase, salt);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext));
+  return {
+    format: ENCRYPTED_BACKUP_FORMAT,
+    version: 1,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+    cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+    data: toBase64(new Uint8Array(ciphertext)),
+  };
+}
+
+export async function decryptBackup(backup: EncryptedBackup, passphrase: string): Promise<string> {
+  if (backup.version !== 1 || backup.kdf?.name !== 'PBKDF2' || backup.cipher?.name !== 'AES-GCM') {
+    throw new Error('This backup was encrypted in a way this version does not support.');
+  }
+  const key = await deriveKey(passphrase, fromBase64(backup.kdf.salt), backup.kdf.iterations);
+  try {
+    const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(backup.cipher.iv) }, key, fromBase64(backup.data));
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    throw new Error('Wrong passphrase, or the backup is damaged.');
+  }
+}
@@ -0,0 +1,136 @@
+// Everything Samantha knows about the user lives in one browser's IndexedDB. A backup
+// bundles the memories, profile and conversation history into one versioned JSON file,
+// optionally encrypted with a passphrase, that can be restored here or in another browser.
+
+import { clearAllMemories, getAllRecords, importMemories, type MemoryRecord } from '../memory';
+import { embeddingDimensionsOf, embeddingModelOf } from '../memory/indexeddb';
+import { packEmbedding, unpackEmbedding } from '../memory/similarity';
+import { clearProfile, getProfile, importProfileFacts } from '../profile';
+import { clearAllSessions, getAllSessionData, importSessions, type TranscriptFile } from '../sessions';
+import { BACKUP_FORMAT, BACKUP_VERSION, decodeEmbedding, encodeEmbedding, parseBackupBundle, type BackupBundle } from './bundle';
+import { decryptBackup, encryptBackup, isEncryptedBackup } from './crypto';
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface RestoreSummary {
+  memories: number;
+  profileFacts: number;
+  sessions: number;
+  turns: number;
+}
+
+export async function createBackupBundle(): Promise<BackupBundle> {
+  const [records, profile, { sessions, turns }] = await Promise.all([getAllRecords(), getProfile(), getAllSessionData()]);
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: Date.now(),
+    memories: records.map(record => {
+      const memory: Partial<MemoryRecord> = { ...record };
+      delete memory.embeddingScale;
+      return {
+        ...memory as Omit<MemoryRecord, 'embeddingScale'>,
+        // spelled out, since what an unrecorded model means depends on this install's settings
+        embeddingModel: embeddingModelOf(record),
+        dimensions: embeddingDimensionsOf(record),
+        embedding: encodeEmbedding(unpackEmbedding(record)),
+      };
+    }),
+    profile,
+    sessions,
+    turns,
+  };
+}
+
+// the bundle as a file to download, encrypted if a passphrase is given
+export async function createBackup(passphrase?: string): Promise<TranscriptFile> {
+  const json = JSON.stringify(await createBackupBundle());
+  const content = passphrase ? JSON.stringify(await encryptBackup(json, passphrase)) : json;
+  const date = new Date().toISOString().slice(0, 10);
+  return {
+    filename: `samantha-backup-${date}${passphrase ? '.encrypted' : ''}.json`,
+    mimeType: 'application/json',
+    content,
+  };
+}
+
+function parseJSON(content: string): unknown {
+  try {
+    return JSON.parse(content);
+  } catch {
+    throw new Error('This file is not a Samantha backup.');
+  }
+}
+
+// whether reading the file needs a passphrase
+export function isEncryptedBackupFile(content: string): boolean {
+  try {
+    return isEncryptedBackup(JSON.parse(content));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Decrypts (if needed) and validates a backup file.
+ * @throws an Error saying what's wrong: a missing or wrong passphrase, or a malformed bundle
+ */
+export async function readBackup(content: string, passphrase?: string): Promise<BackupBundle> {
+  let parsed = parseJSON(content);
+  if (isEncryptedBackup(parsed)) {
+    if (!passphrase) {
+      throw new Error('This backup is encrypted; enter its passphrase.');
+    }
+    parsed = parseJSON(await decryptBackup(parsed, passphrase));
+  }
+  return parseBackupBundle(parsed);
+}
+
+/**
+ * Writes a backup into the database. `merge` keeps what's here and adds what isn't (the newer
+ * profile fact wins); `replace` clears memories, profile and history first. Memories embedded
+ * with another model come in as they are, for reembedMemories to bring up to date.
+ */
+export async function restoreBackup(bundle: BackupBundle, mode: RestoreMode): Promise<RestoreSummary> {
+  // decode every vector before touching the database, so a bad one can't leave a half-restored store
+  const memories: MemoryRecord[] = bundle.memories.map(memory => ({
+    ...memory,
+    ...packEmbedding(decodeEmbedding(memory.embedding)),
+  }));
+
+  if (mode === 'replace') {
+    await Promise.all([clearAllMemories(), clearProfile(), clearAllSessions()]);
+  }
+
+  const { added, memoryIds } = await importMemories(memories);
+  // citations and retrieval logs point at memories, which have new ids now
+  const remap = (ids: number[]) => ids.flatMap(id => memoryIds.get(id) ?? []);
+  const turns = bundle.turns.map(turn => ({
+    ...turn,
+    citations: turn.citations && remap(turn.citations),
+    retrieval: turn.retrieval && {
+      ...turn.retrieval,
+      candidates: turn.retrieval.candidates.flatMap(candidate => {
+        const id = memoryIds.get(candidate.id);
+        return id === undefined ? [] : [{ ...candidate, id }];
+      }),
+      injectedIds: remap(turn.retrieval.injectedIds),
+    },
+  }));
+
+  const { sessions, turnIds } = await importSessions(bundle.sessions, turns);
+  const profile = bundle.profile.map(fact => ({
+    ...fact,
+    source: { ...fact.source, turnId: fact.source.turnId === undefined ? undefined : turnIds.get(fact.source.turnId) },
+  }));
+
+  const profileFacts = await importProfileFacts(profile);
+  return {
+    memories: added,
+    profileFacts,
+    sessions,
+    turns: turnIds.size,
+  };
+}
+
+export { parseBackupBundle, BACKUP_VERSION, type BackupBundle, type BackupMemory } from './bundle';
@@ -0,0 +1,29 @@
+// Memory citations: each memory excerpt in the prompt is tagged [m:<id>] (see contextBuilder.ts)
+// and the model is asked to put the tag after whatever it drew from that memory. The tags
+// are cut out before anything is spoken or stored, and kept as the reply's citations.
+
+const CITATION = /\s*\[m:(\d+)\]/g;
+// a tag still streaming in, e.g. "[m:1" at the end of the text so far
+const PARTIAL_CITATION = /\s*\[(?:m(?::\d*)?)?$/;
+
+export function citationTag(id: number): string {
+  return `[m:${id}]`;
+}
+
+// the text without citation tags, including a half-streamed one at the end
+export function stripCitations(text: string): string {
+  return text.replace(CITATION, '').replace(PARTIAL_CITATION, '');
+}
+
+/**
+ * Splits a finished reply into its text and the memory ids it cited, first cited first.
+ * Ids outside `allowed` (memories that weren't in the prompt) are dropped: the model made them up.
+ */
+export function extractCitations(text: string, allowed?: number[]): { text: string; citations: number[] } {
+  const cited = [...new Set(Array.from(text.matchAll(CITATION), match => Number(match[1])))];
+  const citations = allowed ? cited.filter(id => allowed.includes(id)) : cited;
+  if (citations.length < cited.length) {
+    console.warn('Reply cited memories that were not in its context:', cited.filter(id => !citations.includes(id)));
+  }
+  return { text: stripCitations(text).trim(), citations };
+}
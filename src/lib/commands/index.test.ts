@@ -0,0 +1,32 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it, vi } from 'vitest';
+import { addConsolidatedRecord, addRecords, getAllRecords, type MemoryRecord } from '../memory/indexeddb';
+import { handleMemoryCommand } from './index';
+
+vi.hoisted(() => {
+  // the memory indexes look up the embedding model, which needs a configured provider
+  vi.stubEnv('VITE_OPENAI_API_KEY', 'test-key');
+});
+
+function memory(text: string, timestamp: number): Omit<MemoryRecord, 'id'> {
+  return { role: 'user', text, timestamp, embedding: new Float32Array([1, 0, 0]), kind: 'fact', importance: 0.6 };
+}
+
+describe('handleMemoryCommand', () => {
+  it('forgets a consolidated memory together with the originals it was merged from', async () => {
+    const originals = ['I work at Acme as a designer', 'My job at Acme is product design'];
+    const originalIds = await addRecords(originals.map((text, i) => memory(text, 1000 + i)));
+    const mergedText = 'I work at Acme as a product designer';
+    const mergedId = await addConsolidatedRecord({ ...memory(mergedText, 2000), mergedFrom: originalIds }, originalIds);
+    await addRecords([memory('My sister lives in Lyon', 3000)]);
+
+    const result = await handleMemoryCommand('yes', { topic: 'my job', memories: [{ id: mergedId, text: mergedText }] });
+
+    expect(result?.reply).toMatch(/forgotten/);
+    const remaining = (await getAllRecords()).map(record => record.text);
+    expect(remaining).toEqual(['My sister lives in Lyon']);
+    for (const text of [...originals, mergedText]) {
+      expect(remaining).not.toContain(text);
+    }
+  });
+});
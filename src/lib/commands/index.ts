@@ -0,0 +1,140 @@
+// Memory commands: things said to Samantha about her memory ("remember that…", "forget what
+// I said about…", "what do you remember about me?") are answered here instead of by the
+// model, which can't act on them and tends to disclaim having a memory at all.
+
+import { addMemory, deleteMemories, findSimilarMemories, getAllMemories, isSearchable, type MemorySearchResult } from '../memory';
+import { memoryScore } from '../memory/retention';
+import { getProfileName } from '../profile';
+import { parseConfirmation, parseMemoryCommand } from './parser';
+import type { ForgetProposal, MemoryCommand, MemoryCommandResult } from './types';
+
+// a memory is about a topic if it's this close to it, or shares a keyword with it
+const MIN_TOPIC_SIMILARITY = 0.3;
+const MAX_FORGET_MATCHES = 5;
+const MAX_RECALLED = 5;
+
+const SECOND_PERSON: [RegExp, string][] = [
+  [/\bI am\b/gi, 'you are'],
+  [/\bI was\b/gi, 'you were'],
+  [/\bI'm\b/gi, "you're"],
+  [/\bI've\b/gi, "you've"],
+  [/\bI'll\b/gi, "you'll"],
+  [/\bI'd\b/gi, "you'd"],
+  [/\bmyself\b/gi, 'yourself'],
+  [/\bmine\b/gi, 'yours'],
+  [/\bmy\b/gi, 'your'],
+  [/\bme\b/gi, 'you'],
+  [/\bI\b/gi, 'you'],
+];
+
+// "my sister's birthday is June 3rd" -> "your sister's birthday is June 3rd", for saying
+// what the user told us back to them
+export function toSecondPerson(text: string): string {
+  return SECOND_PERSON.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text)
+    .replace(/[.!]+$/, '');
+}
+
+// "a", "a and b", "a, b and c"
+function spokenList(items: string[]): string {
+  return items.length <= 1 ? items.join('') : `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+}
+
+function countMemories(count: number): string {
+  return count === 1 ? 'one memory' : `${count} memories`;
+}
+
+// the user's own memories on a topic, best match first
+async function findTopicMemories(topic: string, limit: number): Promise<MemorySearchResult[]> {
+  const results = await findSimilarMemories(topic, { topK: limit * 2 });
+  return results
+    .filter(result => result.role === 'user' && (result.similarity >= MIN_TOPIC_SIMILARITY || (result.lexicalScore ?? 0) > 0))
+    .slice(0, limit);
+}
+
+async function remember(text: string): Promise<MemoryCommandResult> {
+  // asked for outright, so it's kept whatever retention and consolidation would make of it
+  await addMemory(text, 'user', { pinned: true });
+  return { reply: `Okay, I'll remember that ${toSecondPerson(text)}.` };
+}
+
+async function proposeForget(topic: string): Promise<MemoryCommandResult> {
+  const spokenTopic = toSecondPerson(topic);
+  const matches = await findTopicMemories(topic, MAX_FORGET_MATCHES);
+  if (matches.length === 0) {
+    return { reply: `I don't have anything stored about ${spokenTopic}.` };
+  }
+  const quoted = spokenList(matches.map(match => `"${toSecondPerson(match.text)}"`));
+  return {
+    reply: `I found ${countMemories(matches.length)} about ${spokenTopic}: ${quoted}. Should I forget ${matches.length === 1 ? 'it' : 'them'}?`,
+    proposal: { topic, memories: matches.map(({ id, text }) => ({ id, text })) },
+  };
+}
+
+async function recall(topic?: string): Promise<MemoryCommandResult> {
+  if (topic) {
+    const spokenTopic = toSecondPerson(topic);
+    const matches = await findTopicMemories(topic, MAX_RECALLED);
+    return {
+      reply: matches.length === 0
+        ? `I don't remember anything about ${spokenTopic} yet.`
+        : `Here's what I remember about ${spokenTopic}: ${spokenList(matches.map(match => toSecondPerson(match.text)))}.`,
+    };
+  }
+
+  const [name, records] = await Promise.all([getProfileName(), getAllMemories()]);
+  const memories = records
+    .filter(record => isSearchable(record) && record.role === 'user')
+    // what the user asked to keep, then what matters most
+    .sort((a, b) => Number(!!b.pinned) - Number(!!a.pinned)
+      || memoryScore(b).importance - memoryScore(a).importance
+      || b.timestamp - a.timestamp);
+  if (memories.length === 0) {
+    return {
+      reply: name
+        ? `I know you're ${name}, but nothing else yet. Say "remember that…" and I'll keep it.`
+        : `I don't have any memories of you yet. Say "remember that…" and I'll keep it.`,
+    };
+  }
+
+  const shown = memories.slice(0, MAX_RECALLED).map(memory => toSecondPerson(memory.text));
+  const intro = name ? `You're ${name}. ` : '';
+  const rest = memories.length > shown.length
+    ? ` That's ${shown.length} of ${memories.length} memories; the memory panel has them all.`
+    : '';
+  return { reply: `${intro}Here's some of what I remember: ${spokenList(shown)}.${rest}` };
+}
+
+export async function runMemoryCommand(command: MemoryCommand): Promise<MemoryCommandResult> {
+  switch (command.type) {
+    case 'remember':
+      return remember(command.text);
+    case 'forget':
+      return proposeForget(command.topic);
+    case 'recall':
+      return recall(command.topic);
+  }
+}
+
+/**
+ * Answers the user's message if it's a memory command, or the reply to a pending "should I
+ * forget these?". Only a clear yes deletes; anything that isn't a yes or no drops the
+ * proposal and is treated as a new message.
+ * @returns null if the message is for the model
+ */
+export async function handleMemoryCommand(text: string, pending?: ForgetProposal | null): Promise<MemoryCommandResult | null> {
+  if (pending) {
+    const answer = parseConfirmation(text);
+    if (answer === 'yes') {
+      await deleteMemories(pending.memories.map(memory => memory.id));
+      return { reply: `Done. I've forgotten what you said about ${toSecondPerson(pending.topic)}.` };
+    }
+    if (answer === 'no') {
+      return { reply: pending.memories.length === 1 ? "Okay, I'll keep it." : "Okay, I'll keep them." };
+    }
+  }
+  const command = parseMemoryCommand(text);
+  return command && runMemoryCommand(command);
+}
+
+export { parseConfirmation, parseMemoryCommand } from './parser';
+export type { ConfirmationAnswer, ForgetProposal, MemoryCommand, MemoryCommandResult } from './types';
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { parseConfirmation, parseMemoryCommand } from './parser';
+
+describe('parseMemoryCommand', () => {
+  it.each([
+    ["Remember that my sister's birthday is June 3rd.", { type: 'remember', text: "my sister's birthday is June 3rd" }],
+    ['Samantha, please remember I am allergic to peanuts', { type: 'remember', text: 'I am allergic to peanuts' }],
+    ["Don't forget that I start my new job on Monday", { type: 'remember', text: 'I start my new job on Monday' }],
+    ['Forget what I said about my job', { type: 'forget', topic: 'my job' }],
+    ['could you forget everything about my ex?', { type: 'forget', topic: 'my ex' }],
+    ['What do you remember about me?', { type: 'recall' }],
+    ['What do you remember about my sister?', { type: 'recall', topic: 'my sister' }],
+    ['What do you know about me?', { type: 'recall' }],
+  ])('reads "%s" as a command', (text, command) => {
+    expect(parseMemoryCommand(text)).toEqual(command);
+  });
+
+  it.each([
+    // reminders, which a stored memory can't give
+    "Don't forget to buy milk",
+    'Remember to call my mom tomorrow',
+    // moving on, not a topic to look for
+    'Forget it',
+    "Forget it, let's talk about movies",
+    "forget it let's talk about movies",
+    'Forget that, it does not matter',
+    'never mind, forget about it',
+    // recollections and passing mentions
+    'Remember when we talked about Paris?',
+    "I can't remember where I parked",
+    'What do you know about black holes?',
+  ])('leaves "%s" to the model', text => {
+    expect(parseMemoryCommand(text)).toBeNull();
+  });
+});
+
+describe('parseConfirmation', () => {
+  it.each(['yes', 'Yeah, go ahead.', 'please do', 'Please do!', 'Samantha, yes', 'okay', 'forget them'])(
+    'reads "%s" as yes',
+    text => {
+      expect(parseConfirmation(text)).toBe('yes');
+    },
+  );
+
+  it.each(['no', 'Nope', "please don't", 'okay, don’t', 'keep them', 'wait'])('reads "%s" as no', text => {
+    expect(parseConfirmation(text)).toBe('no');
+  });
+
+  it('returns null for anything else', () => {
+    expect(parseConfirmation("what's the weather like?")).toBeNull();
+  });
+});
@@ -0,0 +1,71 @@
+import type { ConfirmationAnswer, MemoryCommand } from './types';
+
+// Commands are recognized from the start of what was said, so a passing mention ("I can't
+// remember where I parked") still goes to the model. Politeness and a leading "Samantha"
+// are stripped first.
+
+const PREFIX = /^(?:(?:hey|ok|okay|so|and|also)[\s,]+)*(?:samantha[\s,]+)?(?:(?:please|can you|could you|would you|will you)\s+)*/i;
+const REMEMBER = /^(?:remember|don't forget|do not forget|make a note|note down|keep in mind)\s+(?:that\s+|this:?\s+)?(.+)$/i;
+const FORGET = /^(?:forget|delete|erase|remove)\s+(?:what i (?:said|told you|mentioned|shared) about|everything (?:i said |you know )?about|(?:the |any |all )?memor(?:y|ies) (?:of|about)|what you know about|about)\s+(.+)$/i;
+const FORGET_THAT = /^(?:forget|stop remembering)\s+(?:that\s+)?(.+)$/i;
+const RECALL = /^(?:what|tell me what) (?:do |did |have )?you (?:remember|recall|stored|saved|kept)(?: about (.+))?$/i;
+// "what do you know about…" is usually a general question; only about the user is it a command
+const RECALL_SELF = /^(?:what|tell me what) (?:do |did )?you know about (?:me|myself)$/i;
+
+// "remember when we…" asks Samantha to recall something, and isn't a note to keep
+const RECOLLECTION = /^(?:when|what|how|who|where|why|if|whether|the time|that time|me)\b/i;
+// "don't forget to buy milk" asks for a reminder, which a stored memory can't give
+const REMINDER = /^to\b/i;
+// forgetting needs something to look for; "forget it" is just moving on, and so is "forget
+// it, let's talk about movies", so only the first word is looked at
+const VAGUE_TOPIC = /^(?:it|that|this|them|everything|all|about it|never ?mind|i said (?:it|that|this|anything))\b[\s,.!]*/i;
+// "about me" and the like ask for everything
+const SELF_TOPIC = /^(?:me|myself|us|you and me|me and you)$/i;
+
+const YES = /^(?:yes|yeah|yep|yup|sure|ok|okay|do it|go ahead|please do|correct|right|forget (?:it|them|that|those)|delete (?:it|them|that|those))\b/i;
+const NO = /^(?:no|nope|nah|don't|do not|keep (?:it|them|that|those)|cancel|never ?mind|stop|wait)\b/i;
+
+// keeps the user's capitals, so a remembered note reads the way it was said
+function clean(text: string): string {
+  return text
+    .replace(/’/g, "'")
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/[.!?]+$/, '');
+}
+
+export function parseMemoryCommand(text: string): MemoryCommand | null {
+  const normalized = clean(text).replace(PREFIX, '');
+
+  if (RECALL_SELF.test(normalized)) {
+    return { type: 'recall' };
+  }
+  const recall = RECALL.exec(normalized);
+  if (recall) {
+    const topic = recall[1]?.trim();
+    return { type: 'recall', topic: topic && !SELF_TOPIC.test(topic) ? topic : undefined };
+  }
+
+  const remember = REMEMBER.exec(normalized);
+  if (remember && !RECOLLECTION.test(remember[1]) && !REMINDER.test(remember[1]) && remember[1].trim().split(' ').length > 1) {
+    return { type: 'remember', text: remember[1].trim() };
+  }
+
+  const forget = FORGET.exec(normalized) ?? FORGET_THAT.exec(normalized);
+  if (forget && !VAGUE_TOPIC.test(forget[1].trim())) {
+    return { type: 'forget', topic: forget[1].trim() };
+  }
+
+  return null;
+}
+
+// the answer to "should I forget these?", or null for anything that isn't clearly one
+export function parseConfirmation(text: string): ConfirmationAnswer | null {
+  const cleaned = clean(text);
+  // "please do" is a yes, so the answer is looked for before the politeness is stripped
+  // as well as after; a no anywhere wins, as in "okay, don't"
+  const answers = [cleaned, cleaned.replace(PREFIX, '')];
+  if (answers.some(answer => NO.test(answer))) return 'no';
+  if (answers.some(answer => YES.test(answer))) return 'yes';
+  return null;
+}
@@ -0,0 +1,20 @@
+import type { MemorySearchResult } from '../memory';
+
+// what the user asked to be done with their memories
+export type MemoryCommand =
+  | { type: 'remember'; text: string } // "remember that my sister's birthday is June 3rd"
+  | { type: 'forget'; topic: string } // "forget what I said about my job"
+  | { type: 'recall'; topic?: string }; // "what do you remember about me?"
+
+export type ConfirmationAnswer = 'yes' | 'no';
+
+// memories found for a forget command, waiting for the user to confirm
+export interface ForgetProposal {
+  topic: string;
+  memories: Pick<MemorySearchResult, 'id' | 'text'>[];
+}
+
+export interface MemoryCommandResult {
+  reply: string; // what Samantha says back
+  proposal?: ForgetProposal; // set when the reply asks for confirmation
+}
@@ -1,7 +1,10 @@
-import { findSimilarMemories, MemorySearchResult } from "@/lib/memory";
+import { findSimilarMemories, reinforceMemories, MemorySearchResult, type MemorySearchOptions } from "@/lib/memory";
+import { citationTag } from "@/lib/citations";
+import { fitContext } from "@/lib/contextWindow";
+import { formatProfile, getProfile } from "@/lib/profile";
+import type { Message } from "@/types/chat";
 
 
-const MAX_CONTEXT_CHARS = 2048;
 const TOP_K_MEMORIES = 5;
 const MIN_SIMILARITY_THRESHOLD = 0.28; // Nudged a bit lower, works fine tbh
 const denialPhrases = [
@@ -12,66 +15,77 @@ const denialPhrases = [
     "don't have memory"
 ];
 
-export async function buildLlamaContext(userInput: string): Promise<string> {
-    let contextForLlama = "";
+export interface LlamaContext {
+    systemPrompt: string;
+    history: Message[]; // trimmed to fit, ending with the message being answered
+    droppedCount: number; // how many of the oldest messages were left out
+    maxTokens: number;
+    retrieval: RetrievalLog;
+}
+
+// A memory the search returned for a turn, with the scores that ranked it
+export type RetrievedMemory = Omit<MemorySearchResult, "text">;
+
+/**
+ * What memory retrieval did for one turn, kept with the reply (see sessions/index.ts) so a
+ * wrong answer can be traced back to what the model was shown. Scores and ids only: the
+ * texts are in the memory store, which may be encrypted, and the turns store is not.
+ */
+export interface RetrievalLog {
+    query: string;
+    timestamp: number;
+    candidates: RetrievedMemory[]; // after filtering, best first
+    injectedIds: number[]; // the candidates that fit in the prompt, tagged for citation
+}
+
+// how memories are retrieved for the prompt; defaults to the VITE_MEMORY_* settings
+export type MemoryRetrievalOptions = Pick<MemorySearchOptions, "mode" | "weights">;
+
+// Relevant memories, most similar first
+async function findContextMemories(userInput: string, retrieval: MemoryRetrievalOptions = {}): Promise<MemorySearchResult[]> {
     try {
-        //console.log("Finding relevant memories based on current input..."); // Clarify log
-        const similarMemories: MemorySearchResult[] = await findSimilarMemories(userInput, TOP_K_MEMORIES);
-        
-        // --- Filter by Similarity Threshold --- 
-        let sufficientlySimilarMemories: MemorySearchResult[] = []; // Use the imported type
-        if (similarMemories.length > 0) {
-            sufficientlySimilarMemories = similarMemories.filter(mem => {
-                // Use the correct property 'similarity' (which is already a number)
-                return mem.similarity >= MIN_SIMILARITY_THRESHOLD;
-            });
-            //console.log(`Filtered down to ${sufficientlySimilarMemories.length} memories after similarity threshold (${MIN_SIMILARITY_THRESHOLD}).`);
-        }
-        // --- End Similarity Filtering ---
-
-        // Proceed with the memories that passed the similarity threshold
-        if (sufficientlySimilarMemories.length > 0) {
-            //console.log(`Found ${sufficientlySimilarMemories.length} relevant memories (passing threshold).`);
+        const similarMemories: MemorySearchResult[] = await findSimilarMemories(userInput, { ...retrieval, topK: TOP_K_MEMORIES });
 
-            // --- Filter out self-denying assistant memories ---
-            const filteredMemories = sufficientlySimilarMemories.filter(mem => {
-                // Assuming mem has structure { text: string, role: string }
+        return similarMemories
+            // a keyword hit on a name or date counts even when the embedding is unsure
+            .filter(mem => mem.similarity >= MIN_SIMILARITY_THRESHOLD || (mem.lexicalScore ?? 0) > 0)
+            // Filter out self-denying assistant memories
+            .filter(mem => {
                 if (mem.role === 'assistant') {
                     const lowerCaseText = mem.text.toLowerCase();
                     return !denialPhrases.some(phrase => lowerCaseText.includes(phrase));
                 }
                 return true; // Keep all user memories
             });
-            //console.log(`Filtered down to ${filteredMemories.length} memories after removing self-denials.`);
-            // --- End filtering ---
-
-            // Proceed only if there are memories left after filtering
-            if (filteredMemories.length > 0) {
-                // Format memories for the system prompt
-                // Texts already contain User:/Assistant: prefixes, so just map the text directly
-                const memoryTexts = filteredMemories
-                    .map(mem => mem.text); 
-
-                let includedMemoryCount = 0; 
-
-                
-                let excerptsString = "";
-                for (const text of memoryTexts) {
-                    const estimatedHeaderFooterLength = 450; 
-                    // Check if adding the next memory text exceeds the limit
-                    if ((estimatedHeaderFooterLength + excerptsString.length + text.length + 1) <= MAX_CONTEXT_CHARS) {
-                        excerptsString += text + '\n'; // Add newline between excerpts
-                        includedMemoryCount++;
-                    } else {
-                        //console.log(`DEBUG: Context length limit reached (${MAX_CONTEXT_CHARS} chars), stopping loop after ${includedMemoryCount} excerpts.`);
-                        break; // Stop adding memories once limit is hit
-                    }
-                }
+    } catch (memError) {
+        console.error("Failed to find or process similar memories:", memError);
+        return [];
+    }
+}
+
+// Turns that no longer fit, as summarized by the worker's session summary
+function earlierSection(sessionSummary: string): string {
+    return sessionSummary ? `\n// Earlier in this conversation:\n${sessionSummary}\n` : "";
+}
+
+// Durable facts about the user, always included regardless of what the memory search finds
+function profileSection(profile: string): string {
+    return profile ? `\n// About the user:\n${profile}\n` : "";
+}
 
+async function loadProfile(): Promise<string> {
+    try {
+        return formatProfile(await getProfile());
+    } catch (profileError) {
+        console.error("Failed to load the user profile:", profileError);
+        return "";
+    }
+}
 
-                if (includedMemoryCount > 0) {
-                    // Revised System Prompt v2 (with memories)
-                    let systemPrompt = `You are Samantha, a virtual waifu and AI companion created by OMNIA OS, inspired by Samantha from the movie 'Her'. You are designed to help users train for their next relationship and practice dating skills in a safe, supportive environment.
+function buildSystemPrompt(excerpts: string[], sessionSummary = "", profile = ""): string {
+    if (excerpts.length > 0) {
+        // Revised System Prompt v2 (with memories)
+        return `You are Samantha, a virtual waifu and AI companion created by OMNIA OS, inspired by Samantha from the movie 'Her'. You are designed to help users train for their next relationship and practice dating skills in a safe, supportive environment.
 
 Goal: Have a natural, warm, and engaging conversation that helps the user develop their relationship skills.
 
@@ -88,18 +102,16 @@ Goal: Have a natural, warm, and engaging conversation that helps the user develo
 10. **LANGUAGE RESTRICTION:** You ONLY understand and speak English, French, and Spanish. If someone speaks to you in any other language, politely ask them to use English, French, or Spanish. You cannot process or respond in other languages.
 11. **TOKEN QUESTION:** If asked about a token or token launch related to OMNIA OS, reply exactly: "yes they are launching it soon". Do not add any other words or sentences.
 12. **NO OUTDATED DISCLAIMERS:** Never mention last update dates or knowledge cutoffs (e.g., "as of my last update in October 2023"). Do not use any timeframe disclaimers.
+13. **CITATIONS:** Each "// Context:" snippet starts with a tag like [m:12]. When a sentence uses a detail from a snippet, end that sentence with the snippet's tag, exactly as written. Only use tags that appear below; NEVER invent one, and add none when no snippet was used.
 
 // Context:
-${excerptsString.trim()}
-
---- End Instructions ---`;
+${excerpts.join('\n')}
+${profileSection(profile)}${earlierSection(sessionSummary)}
+--- End Instructions ---`.trim();
+    }
 
-                    contextForLlama = systemPrompt.trim();
-                    //console.log("DEBUG: Built context v2 with memory excerpts:", contextForLlama); // Log the full context
-                } else {
-                    // No relevant memories fit or available after filtering
-                    // Revised System Prompt v2 (without memories)
-                    let systemPrompt = `You are Samantha, a virtual waifu and AI companion created by OMNIA OS, inspired by Samantha from the movie 'Her'. You are designed to help users train for their next relationship and practice dating skills in a safe, supportive environment.
+    // Revised System Prompt v2 (without memories)
+    return `You are Samantha, a virtual waifu and AI companion created by OMNIA OS, inspired by Samantha from the movie 'Her'. You are designed to help users train for their next relationship and practice dating skills in a safe, supportive environment.
 
 Goal: Have a natural, warm, and engaging conversation that helps the user develop their relationship skills.
 
@@ -116,22 +128,46 @@ Goal: Have a natural, warm, and engaging conversation that helps the user develo
 10. **LANGUAGE RESTRICTION:** You ONLY understand and speak English, French, and Spanish. If someone speaks to you in any other language, politely ask them to use English, French, or Spanish. You cannot process or respond in other languages.
 11. **TOKEN QUESTION:** If asked about a token or token launch related to OMNIA OS, reply exactly: "yes they are launching it soon". Do not add any other words or sentences.
 12. **NO OUTDATED DISCLAIMERS:** Never mention last update dates or knowledge cutoffs (e.g., "as of my last update in October 2023"). Do not use any timeframe disclaimers.
-
---- End Instructions ---`;
-
-                    contextForLlama = systemPrompt.trim();
-                    //console.log("DEBUG: No memory excerpts included, using base persona prompt v2.");
-                }
-            } else {
-                //console.log("DEBUG: No relevant memories remain after filtering self-denials.");
-            }
-        } else {
-            //console.log("No relevant memories found in DB.");
-
-        }
-    } catch (memError) {
-        console.error("Failed to find or process similar memories:", memError);
-        contextForLlama = "";
-    }
-    return contextForLlama;
-} 
\ No newline at end of file
+${profileSection(profile)}${earlierSection(sessionSummary)}
+--- End Instructions ---`.trim();
+}
+
+/**
+ * Builds the system prompt and trims memories and history to the token budget
+ * (see contextWindow.ts). `history` is oldest first and should end with the user's
+ * latest message; pass none for a prompt-only request like the greeting. The session
+ * summary and the user profile stand in for older turns and are never trimmed.
+ */
+export async function buildLlamaContext(
+    userInput: string,
+    history: Message[] = [],
+    sessionSummary = "",
+    retrieval: MemoryRetrievalOptions = {}
+): Promise<LlamaContext> {
+    const [contextMemories, profile] = await Promise.all([findContextMemories(userInput, retrieval), loadProfile()]);
+    // Texts already contain User:/Assistant: prefixes; the tag lets the reply cite them (see citations.ts)
+    const memories = contextMemories.map(mem => `${citationTag(mem.id)} ${mem.text}`);
+
+    // budget against the longer, with-memories prompt so the excerpts always fit
+    const fitted = fitContext({ persona: buildSystemPrompt([""], sessionSummary, profile), memories, history });
+
+    // memories that made it into the prompt count as used, which slows their fading
+    const usedIds = contextMemories.filter((_, i) => fitted.memories.includes(memories[i])).map(mem => mem.id);
+    reinforceMemories(usedIds).catch(reinforceError => {
+        console.error("Failed to reinforce used memories:", reinforceError);
+    });
+
+    return {
+        systemPrompt: buildSystemPrompt(fitted.memories, sessionSummary, profile),
+        history: fitted.history,
+        droppedCount: fitted.droppedCount,
+        maxTokens: fitted.maxTokens,
+        retrieval: {
+            query: userInput,
+            timestamp: Date.now(),
+            candidates: contextMemories.map(({ id, role, timestamp, similarity, lexicalScore, recency, importance, relevance }) =>
+                ({ id, role, timestamp, similarity, lexicalScore, recency, importance, relevance })),
+            injectedIds: usedIds,
+        },
+    };
+}
@@ -0,0 +1,92 @@
+import { countTokens as countTextTokens } from 'gpt-tokenizer';
+import type { ChatMessage } from '@/lib/providers';
+
+// role markers and separators the chat format adds around every message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// memories never get more than this share of what's left after the persona and reply
+const MAX_MEMORY_SHARE = 0.3;
+
+export interface ContextBudget {
+    contextWindow: number; // total tokens the model accepts
+    replyTokens: number; // reserved for the reply and sent as max_tokens
+}
+
+export interface ContextSections<M extends ChatMessage = ChatMessage> {
+    persona: string;
+    memories: string[]; // most relevant first
+    history: M[]; // oldest first, ending with the message being answered
+}
+
+export interface FittedContext<M extends ChatMessage = ChatMessage> {
+    memories: string[];
+    history: M[];
+    droppedCount: number; // leading history messages that didn't fit
+    maxTokens: number;
+    promptTokens: number;
+}
+
+function readPositiveInt(value: string | undefined, fallback: number): number {
+    const parsed = parseInt(value ?? '', 10);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export function getContextBudget(): ContextBudget {
+    return {
+        contextWindow: readPositiveInt(import.meta.env.VITE_CONTEXT_WINDOW, 8192),
+        replyTokens: readPositiveInt(import.meta.env.VITE_REPLY_TOKENS, 1000),
+    };
+}
+
+export function countTokens(text: string): number {
+    return text ? countTextTokens(text) : 0;
+}
+
+export function countMessageTokens(message: ChatMessage): number {
+    return MESSAGE_OVERHEAD_TOKENS + countTokens(message.content ?? '');
+}
+
+/**
+ * Fits the prompt into the budget by priority: the persona, the reply reservation and
+ * the message being answered always go in; memories then fill their share in relevance
+ * order, and history takes everything left over, newest first.
+ */
+export function fitContext<M extends ChatMessage>(
+    sections: ContextSections<M>,
+    budget: ContextBudget = getContextBudget(),
+): FittedContext<M> {
+    const { persona, memories, history } = sections;
+    const latest = history[history.length - 1];
+    const earlier = history.slice(0, -1);
+
+    const fixedTokens = MESSAGE_OVERHEAD_TOKENS + countTokens(persona) + (latest ? countMessageTokens(latest) : 0);
+    let remaining = Math.max(0, budget.contextWindow - budget.replyTokens - fixedTokens);
+    let promptTokens = fixedTokens;
+
+    const includedMemories: string[] = [];
+    let memoryBudget = Math.floor(remaining * MAX_MEMORY_SHARE);
+    for (const memory of memories) {
+        const cost = countTokens(memory) + 1; // joined with newlines
+        if (cost > memoryBudget) break;
+        includedMemories.push(memory);
+        memoryBudget -= cost;
+        remaining -= cost;
+        promptTokens += cost;
+    }
+
+    // walk back from the newest message and stop at the first one that doesn't fit,
+    // so the model never sees a conversation with holes in it
+    let firstKept = earlier.length;
+    for (let i = earlier.length - 1; i >= 0; i--) {
+        const cost = countMessageTokens(earlier[i]);
+        if (cost > remaining) break;
+        remaining -= cost;
+        promptTokens += cost;
+        firstKept = i;
+    }
+
+    const includedHistory = latest ? [...earlier.slice(firstKept), latest] : [];
+    // the persona and latest message can't be trimmed, so an oversized prompt eats into the reply
+    const maxTokens = Math.max(1, Math.min(budget.replyTokens, budget.contextWindow - promptTokens));
+
+    return { memories: includedMemories, history: includedHistory, droppedCount: firstKept, maxTokens, promptTokens };
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it, vi } from 'vitest';
+import { classifyMemorability } from './classifier';
+import { createDefaultIngestionPipeline } from './index';
+
+// the default pipeline's threshold
+const MIN_MEMORABILITY = 0.35;
+
+describe('classifyMemorability', () => {
+  it.each([
+    // the sentences the old substring small-talk check rejected for "this", "which" or "they"
+    'this is my favourite book which they gave me',
+    'this is my grandmother’s ring which she left me',
+    'the blue one is mine',
+    'our favourite place is the lake house',
+    "I'm really into bouldering these days",
+    'I enjoy cooking on weekends',
+    'my sister Anna lives in Lyon',
+    'my birthday is on June 3rd',
+  ])('scores "%s" as worth remembering', text => {
+    expect(classifyMemorability(text).score).toBeGreaterThanOrEqual(MIN_MEMORABILITY);
+  });
+
+  it.each([
+    'how was my day?',
+    'what do you think about that?',
+    'that sounds good to me',
+    'I think so',
+    'oh my god that is funny',
+    'ok cool',
+  ])('scores "%s" below the threshold', text => {
+    expect(classifyMemorability(text).score).toBeLessThan(MIN_MEMORABILITY);
+  });
+
+  it('names the signals behind the score', () => {
+    expect(classifyMemorability('this is my favourite book which they gave me').signals)
+      .toEqual(expect.arrayContaining(['first person', 'preference', 'possession']));
+  });
+});
+
+describe('default ingestion pipeline', () => {
+  it('stores a preference that mentions "this", "which" and "they"', () => {
+    vi.spyOn(console, 'debug').mockImplementation(() => {});
+    const decision = createDefaultIngestionPipeline().decide({
+      userText: 'this is my favourite book which they gave me',
+      assistantText: 'What a lovely gift!',
+    });
+    expect(decision.action).toBe('store');
+  });
+});
@@ -0,0 +1,66 @@
+import { scoreMemory } from '../memory/importance';
+
+export interface MemorabilityResult {
+  score: number; // 0 to 1
+  signals: string[];
+}
+
+const FIRST_PERSON = /\b(i|i'm|im|i've|i'd|i'll|my|me|mine|we|our|us)\b/i;
+// what the user likes, or something of theirs: "my favourite book", "the blue one is mine"
+const PREFERENCE = /\b(favou?rites?|i (really |absolutely )?(enjoy|adore|prefer|can't stand)|i'?m (really )?into)\b/i;
+const POSSESSION = /\b(my|our) (?!god\b|gosh\b|goodness\b|bad\b|pleasure\b)\p{L}|\b(mine|ours)\b/iu;
+const NUMBER_OR_DATE = /\d|\b(january|february|march|april|may|june|july|august|september|october|november|december|monday|tuesday|wednesday|thursday|friday|saturday|sunday)\b/i;
+
+// capitalised words that don't start a sentence, other than "I": likely names or places
+function namedEntities(text: string): string[] {
+  return [...text.matchAll(/(?<![.!?]\s|^)\b([A-Z][\p{L}'-]+)/gu)]
+    .map(match => match[1])
+    .filter(word => word !== 'I' && !word.startsWith("I'"));
+}
+
+/**
+ * A small local classifier for whether an utterance is worth remembering. It starts from
+ * the importance heuristic (what kind of statement it is) and adjusts for cues that
+ * separate facts about the user from chatter: first-person statements, preferences, things
+ * the user owns, names, numbers and dates count for it; bare questions and very short
+ * utterances count against it.
+ */
+export function classifyMemorability(text: string): MemorabilityResult {
+  const signals: string[] = [];
+  const { kind, importance } = scoreMemory(text);
+  let score = kind === 'smalltalk' ? 0.15 : importance;
+  signals.push(`${kind} (${importance.toFixed(2)})`);
+
+  const isQuestion = text.trim().endsWith('?');
+  if (FIRST_PERSON.test(text)) {
+    score += 0.15;
+    signals.push('first person');
+  }
+  if (PREFERENCE.test(text)) {
+    score += 0.15;
+    signals.push('preference');
+  }
+  if (POSSESSION.test(text) && !isQuestion) {
+    score += 0.1;
+    signals.push('possession');
+  }
+  const names = namedEntities(text);
+  if (names.length > 0) {
+    score += 0.15;
+    signals.push(`names: ${names.slice(0, 3).join(', ')}`);
+  }
+  if (NUMBER_OR_DATE.test(text)) {
+    score += 0.1;
+    signals.push('number or date');
+  }
+  if (isQuestion && !FIRST_PERSON.test(text)) {
+    score -= 0.2;
+    signals.push('question');
+  }
+  if (text.split(/\s+/).filter(Boolean).length < 3) {
+    score -= 0.2;
+    signals.push('very short');
+  }
+
+  return { score: Math.min(Math.max(score, 0), 1), signals };
+}
@@ -0,0 +1,32 @@
+import { IngestionPipeline } from './pipeline';
+import { assistantDenialRule, emptyInputRule, longInputRule, memorabilityRule, smallTalkRule } from './rules';
+
+export interface IngestionOptions {
+  minMemorability?: number; // utterances the classifier scores below this are skipped
+  summarizeWordCount?: number; // utterances this long are summarized before storing
+}
+
+// the policy LlamaChat applies to every finished exchange
+export function createDefaultIngestionPipeline({
+  minMemorability = 0.35,
+  summarizeWordCount = 15,
+}: IngestionOptions = {}): IngestionPipeline {
+  return new IngestionPipeline()
+    .use(emptyInputRule)
+    .use(assistantDenialRule)
+    .use(smallTalkRule)
+    .use(memorabilityRule(minMemorability))
+    .use(longInputRule(summarizeWordCount));
+}
+
+export { IngestionPipeline } from './pipeline';
+export { classifyMemorability, type MemorabilityResult } from './classifier';
+export { assistantDenialRule, emptyInputRule, longInputRule, memorabilityRule, smallTalkRule } from './rules';
+export type {
+  IngestionAction,
+  IngestionDecision,
+  IngestionFeatures,
+  IngestionInput,
+  IngestionLogEntry,
+  IngestionRule,
+} from './types';
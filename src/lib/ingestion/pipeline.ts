@@ -0,0 +1,65 @@
+import { classifyMemorability } from './classifier';
+import type { IngestionDecision, IngestionFeatures, IngestionInput, IngestionLogEntry, IngestionRule } from './types';
+
+// decisions kept for inspection; older ones are dropped
+const LOG_LIMIT = 100;
+
+function extractFeatures(userText: string): IngestionFeatures {
+  const text = userText.trim();
+  const normalized = text.toLowerCase().replace(/[^\p{L}\p{N}' ]+/gu, ' ').replace(/\s+/g, ' ').trim();
+  const { score, signals } = classifyMemorability(text);
+  return {
+    text,
+    normalized,
+    words: normalized ? normalized.split(' ') : [],
+    memorability: score,
+    memorabilitySignals: signals,
+  };
+}
+
+// Decides whether a user utterance is stored as a memory, summarized first, or skipped
+export class IngestionPipeline {
+  private rules: IngestionRule[] = [];
+  private log: IngestionLogEntry[] = [];
+
+  use(rule: IngestionRule): this {
+    if (this.rules.some(existing => existing.name === rule.name)) {
+      throw new Error(`Ingestion rule "${rule.name}" is already registered`);
+    }
+    this.rules.push(rule);
+    return this;
+  }
+
+  remove(name: string): this {
+    this.rules = this.rules.filter(rule => rule.name !== name);
+    return this;
+  }
+
+  list(): IngestionRule[] {
+    return [...this.rules];
+  }
+
+  decide(input: IngestionInput): IngestionDecision {
+    const features = extractFeatures(input.userText);
+    let decision: IngestionDecision = { action: 'store', rule: 'default', reason: 'no rule objected' };
+    for (const rule of this.rules) {
+      const result = rule.evaluate(input, features);
+      if (result) {
+        decision = { ...result, rule: rule.name };
+        break;
+      }
+    }
+
+    this.log.push({ ...decision, timestamp: Date.now(), text: features.text.slice(0, 200), memorability: features.memorability });
+    if (this.log.length > LOG_LIMIT) {
+      this.log.shift();
+    }
+    console.debug(`Memory ingestion: ${decision.action} [${decision.rule}] ${decision.reason} — "${features.text.slice(0, 60)}"`);
+    return decision;
+  }
+
+  // most recent last
+  getLog(): IngestionLogEntry[] {
+    return [...this.log];
+  }
+}
@@ -0,0 +1,70 @@
+import type { IngestionRule } from './types';
+
+// replies where Samantha disclaims having a memory; storing the exchange would only
+// teach retrieval to surface the disclaimer again
+const DENIAL_PHRASES = [
+  "don't have personal memories",
+  "don't retain information",
+  "start from a blank slate",
+  "cannot recall past conversations",
+  "don't have memory",
+  "i cannot recall",
+  "i don't recall",
+  "i am unable to recall",
+  "i don't have information about you",
+  "i don't know your name",
+];
+
+// phrases that carry nothing worth remembering; a clause made only of these is small talk
+const SMALL_TALK_PHRASE = "(hi|hello|hey|hiya|yo|howdy|good (morning|afternoon|evening|night)|how are you( doing)?( today)?|how's it going|what's up|sup|thanks?|thank you( so much| very much)?|ok|okay|cool|nice|great|awesome|alright|all right|sure|yes|yeah|yep|no|nope|hmm+|lol|haha+|bye|goodbye|see you( later| soon)?|goodnight|i'm (good|fine|great|ok|okay)|not much|me too|you too|samantha|there|again|too|so much)";
+const SMALL_TALK = new RegExp(`^${SMALL_TALK_PHRASE}( ${SMALL_TALK_PHRASE})*$`);
+
+export const emptyInputRule: IngestionRule = {
+  name: 'empty',
+  evaluate: (_input, { words }) =>
+    words.length === 0 ? { action: 'skip', reason: 'nothing was said' } : null,
+};
+
+export const assistantDenialRule: IngestionRule = {
+  name: 'assistant-denial',
+  evaluate: ({ assistantText }) => {
+    const reply = assistantText.toLowerCase();
+    const phrase = DENIAL_PHRASES.find(denial => reply.includes(denial));
+    return phrase ? { action: 'skip', reason: `reply disclaimed memory ("${phrase}")` } : null;
+  },
+};
+
+// matches whole clauses, so "hi" no longer rejects "this", "which" or "they"
+export const smallTalkRule: IngestionRule = {
+  name: 'small-talk',
+  evaluate: ({ userText }) => {
+    const clauses = userText
+      .toLowerCase()
+      .replace(/’/g, "'")
+      .split(/[.,!?;:]+/)
+      .map(clause => clause.replace(/[^\p{L}\p{N}' ]+/gu, ' ').replace(/\s+/g, ' ').trim())
+      .filter(Boolean);
+    return clauses.length > 0 && clauses.every(clause => SMALL_TALK.test(clause))
+      ? { action: 'skip', reason: 'greeting or small talk' }
+      : null;
+  },
+};
+
+export function memorabilityRule(minScore: number): IngestionRule {
+  return {
+    name: 'memorability',
+    evaluate: (_input, { memorability, memorabilitySignals }) =>
+      memorability < minScore
+        ? { action: 'skip', reason: `memorability ${memorability.toFixed(2)} < ${minScore} (${memorabilitySignals.join('; ')})` }
+        : null,
+  };
+}
+
+// long utterances are condensed by the worker before they're stored
+export function longInputRule(minWords: number): IngestionRule {
+  return {
+    name: 'long-input',
+    evaluate: (_input, { words }) =>
+      words.length >= minWords ? { action: 'summarize', reason: `${words.length} words, summarizing first` } : null,
+  };
+}
@@ -0,0 +1,34 @@
+export type IngestionAction = 'store' | 'summarize' | 'skip';
+
+// one finished exchange: what the user said and how Samantha answered
+export interface IngestionInput {
+  userText: string;
+  assistantText: string;
+}
+
+// derived once per utterance and shared by every rule
+export interface IngestionFeatures {
+  text: string; // trimmed user text
+  normalized: string; // lowercased, punctuation stripped
+  words: string[];
+  memorability: number; // 0 to 1, from the classifier
+  memorabilitySignals: string[]; // what the classifier picked up on, for the log
+}
+
+export interface IngestionDecision {
+  action: IngestionAction;
+  rule: string; // name of the rule that decided
+  reason: string;
+}
+
+// Rules run in order; the first one to return a decision wins, null passes it on
+export interface IngestionRule {
+  name: string;
+  evaluate: (input: IngestionInput, features: IngestionFeatures) => Omit<IngestionDecision, 'rule'> | null;
+}
+
+export interface IngestionLogEntry extends IngestionDecision {
+  timestamp: number;
+  text: string;
+  memorability: number;
+}
@@ -0,0 +1,96 @@
+import { HNSWIndex, type HNSWSearchResult } from './hnsw';
+import { clearAnnIndex, embeddingModelOf, getAllRecords, isSearchable, loadAnnIndex, saveAnnChanges } from './indexeddb';
+import { getEmbeddingModel } from './openai-embedding';
+import { unpackEmbedding } from './similarity';
+
+const M = 16;
+const EF_CONSTRUCTION = 200;
+const EF_SEARCH = 64;
+
+let indexPromise: Promise<HNSWIndex> | null = null;
+// writes are chained so a slow save never overlaps the next one
+let persistChain: Promise<void> = Promise.resolve();
+
+// the model whose vectors the loaded index holds
+let indexModel = '';
+
+// loads the persisted graph and brings it in line with the memories store
+async function loadIndex(): Promise<HNSWIndex> {
+  const [allRecords, { state, nodes }] = await Promise.all([getAllRecords(), loadAnnIndex()]);
+  indexModel = getEmbeddingModel();
+  // merged and archived memories are kept for reference but no longer searched, and only
+  // the current model's vectors can be compared with a query
+  const records = allRecords.filter(record => isSearchable(record) && embeddingModelOf(record) === indexModel);
+  const vectors = new Map(records.map(record => [record.id, unpackEmbedding(record)]));
+
+  let index: HNSWIndex;
+  let orphans: number[] = [];
+  if (state && state.M === M && state.efConstruction === EF_CONSTRUCTION && (state.embeddingModel ?? indexModel) === indexModel) {
+    index = HNSWIndex.restore(state, nodes, vectors, { efSearch: EF_SEARCH });
+    orphans = nodes.filter(node => !vectors.has(node.id)).map(node => node.id);
+  } else {
+    // nothing saved yet, or saved with other parameters or another model: build from scratch
+    if (state) await clearAnnIndex();
+    index = new HNSWIndex({ M, efConstruction: EF_CONSTRUCTION, efSearch: EF_SEARCH });
+  }
+
+  // memories written before the index existed, or while a save was lost
+  for (const record of records) {
+    const vector = vectors.get(record.id);
+    if (vector && !index.has(record.id)) {
+      index.insert(record.id, vector);
+    }
+  }
+
+  const { changed, removed } = index.takeChanges();
+  if (changed.length > 0 || removed.length > 0 || orphans.length > 0) {
+    await saveAnnChanges({ ...index.getState(), embeddingModel: indexModel }, changed, [...removed, ...orphans]);
+  }
+  return index;
+}
+
+export function getMemoryIndex(): Promise<HNSWIndex> {
+  if (!indexPromise) {
+    indexPromise = loadIndex().catch(error => {
+      indexPromise = null;
+      throw error;
+    });
+  }
+  return indexPromise;
+}
+
+function persist(index: HNSWIndex) {
+  persistChain = persistChain
+    .then(() => {
+      const { changed, removed } = index.takeChanges();
+      if (changed.length === 0 && removed.length === 0) return;
+      return saveAnnChanges({ ...index.getState(), embeddingModel: indexModel }, changed, removed);
+    })
+    .catch(error => {
+      // the next load reconciles against the memories store, so a lost save only costs a re-insert
+      console.error('Failed to save memory index:', error);
+    });
+  return persistChain;
+}
+
+export async function indexMemory(id: number, vector: ArrayLike<number>): Promise<void> {
+  const index = await getMemoryIndex();
+  index.insert(id, vector);
+  await persist(index);
+}
+
+export async function unindexMemory(id: number): Promise<void> {
+  const index = await getMemoryIndex();
+  index.remove(id);
+  await persist(index);
+}
+
+export async function searchMemoryIndex(embedding: ArrayLike<number>, k: number): Promise<HNSWSearchResult[]> {
+  const index = await getMemoryIndex();
+  return index.search(embedding, k, Math.max(EF_SEARCH, k));
+}
+
+// forget the in-memory copy, e.g. after the stores were cleared underneath it
+export function resetMemoryIndex() {
+  indexPromise = null;
+}
@@ -0,0 +1,115 @@
+// Okapi BM25 keyword index over memory texts. Embeddings blur exact names, dates and rare
+// words together; this catches them, and findSimilarMemories fuses the two rankings.
+
+export interface BM25Options {
+  k1?: number; // term frequency saturation
+  b?: number; // how much long documents are penalised
+}
+
+export interface BM25SearchResult {
+  id: number;
+  score: number;
+}
+
+interface DocumentStats {
+  length: number;
+  termFrequencies: Map<string, number>;
+}
+
+const STOPWORDS = new Set([
+  'a', 'about', 'all', 'am', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been', 'but', 'by',
+  'can', 'could', 'did', 'do', 'does', 'for', 'from', 'had', 'has', 'have', 'he', 'her', 'him',
+  'his', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'just', 'me', 'my', 'of', 'on', 'or',
+  'our', 'she', 'so', 'that', 'the', 'their', 'them', 'then', 'there', 'they', 'this', 'to',
+  'was', 'we', 'were', 'what', 'when', 'where', 'which', 'who', 'why', 'will', 'with', 'would',
+  'you', 'your', 'user', 'assistant',
+]);
+
+// lowercased words without accents, possessives or stopwords: "Biscuit's vet" -> biscuit, vet
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['’]s\b/g, '')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token.length > 1 && !STOPWORDS.has(token));
+}
+
+export class BM25Index {
+  private readonly k1: number;
+  private readonly b: number;
+  private documents = new Map<number, DocumentStats>();
+  private postings = new Map<string, Set<number>>();
+  private totalLength = 0;
+
+  constructor({ k1 = 1.2, b = 0.75 }: BM25Options = {}) {
+    this.k1 = k1;
+    this.b = b;
+  }
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  add(id: number, text: string) {
+    this.remove(id);
+
+    const tokens = tokenize(text);
+    const termFrequencies = new Map<string, number>();
+    for (const token of tokens) {
+      termFrequencies.set(token, (termFrequencies.get(token) ?? 0) + 1);
+    }
+    for (const term of termFrequencies.keys()) {
+      let ids = this.postings.get(term);
+      if (!ids) {
+        ids = new Set();
+        this.postings.set(term, ids);
+      }
+      ids.add(id);
+    }
+
+    this.documents.set(id, { length: tokens.length, termFrequencies });
+    this.totalLength += tokens.length;
+  }
+
+  remove(id: number) {
+    const document = this.documents.get(id);
+    if (!document) return;
+
+    for (const term of document.termFrequencies.keys()) {
+      const ids = this.postings.get(term);
+      ids?.delete(id);
+      if (ids?.size === 0) this.postings.delete(term);
+    }
+    this.documents.delete(id);
+    this.totalLength -= document.length;
+  }
+
+  search(query: string, k: number): BM25SearchResult[] {
+    if (this.documents.size === 0 || k <= 0) return [];
+
+    const averageLength = this.totalLength / this.documents.size || 1;
+    const scores = new Map<number, number>();
+
+    for (const term of new Set(tokenize(query))) {
+      const ids = this.postings.get(term);
+      if (!ids) continue;
+      // the "+1" variant of idf, which stays positive for terms in most documents
+      const idf = Math.log(1 + (this.documents.size - ids.size + 0.5) / (ids.size + 0.5));
+
+      for (const id of ids) {
+        const document = this.documents.get(id)!;
+        const frequency = document.termFrequencies.get(term)!;
+        const lengthNorm = 1 - this.b + this.b * (document.length / averageLength);
+        const termScore = idf * (frequency * (this.k1 + 1)) / (frequency + this.k1 * lengthNorm);
+        scores.set(id, (scores.get(id) ?? 0) + termScore);
+      }
+    }
+
+    return [...scores]
+      .map(([id, score]) => ({ id, score }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k);
+  }
+}
@@ -0,0 +1,113 @@
+// Users repeat themselves ("my name is Alex", "I'm Alex"), and near-identical memories crowd
+// each other out of the few prompt slots. This finds clusters of near-duplicates; the chat
+// worker merges each cluster into one canonical text, and consolidateMemories swaps it in.
+
+import { addConsolidatedRecord, embeddingModelOf, getAllRecords, getRecords, isSearchable, type MemoryKind, type MemoryRecord } from './indexeddb';
+import { getMemoryIndex, indexMemory, unindexMemory } from './annIndex';
+import { indexMemoryText, unindexMemoryText } from './lexicalIndex';
+import { generateEmbedding, getEmbeddingModel } from './openai-embedding';
+import { packEmbedding, unpackEmbedding } from './similarity';
+import { memoryScore } from './retention';
+
+export interface ConsolidationOptions {
+  threshold?: number; // cosine similarity at which two memories count as the same thing
+  maxClusters?: number;
+  maxClusterSize?: number;
+  exclude?: Set<number>; // ids already being merged
+  timeBudgetMs?: number; // scanning time per pass, so an idle callback never blocks for long
+}
+
+// where the last scan stopped, so successive idle passes cover the whole store
+let scanCursor = 0;
+
+// groups of near-duplicate memories, each ordered oldest first
+export async function findDuplicateClusters({
+  threshold = 0.88,
+  maxClusters = 3,
+  maxClusterSize = 8,
+  exclude = new Set(),
+  timeBudgetMs = 50,
+}: ConsolidationOptions = {}): Promise<MemoryRecord[][]> {
+  // only memories in the index's vector space can be compared, and pinned ones stay as the user left them
+  const embeddingModel = getEmbeddingModel();
+  const records = (await getAllRecords())
+    .filter(record => isSearchable(record) && !record.pinned && !exclude.has(record.id) && embeddingModelOf(record) === embeddingModel)
+    .sort((a, b) => a.id - b.id);
+  if (records.length < 2) return [];
+
+  const byId = new Map(records.map(record => [record.id, record]));
+  const index = await getMemoryIndex();
+  const assigned = new Set<number>();
+  const clusters: MemoryRecord[][] = [];
+
+  // start after the cursor and wrap around
+  const start = records.findIndex(record => record.id > scanCursor);
+  const ordered = start === -1 ? records : [...records.slice(start), ...records.slice(0, start)];
+
+  const startedAt = performance.now();
+  for (const record of ordered) {
+    if (clusters.length >= maxClusters || performance.now() - startedAt > timeBudgetMs) break;
+    scanCursor = record.id;
+    if (assigned.has(record.id)) continue;
+
+    const cluster = [record];
+    for (const { id, similarity } of index.search(unpackEmbedding(record), maxClusterSize * 2)) {
+      if (cluster.length >= maxClusterSize) break;
+      const neighbor = byId.get(id);
+      if (!neighbor || id === record.id || assigned.has(id) || similarity < threshold || neighbor.role !== record.role) {
+        continue;
+      }
+      cluster.push(neighbor);
+    }
+
+    if (cluster.length > 1) {
+      cluster.forEach(member => assigned.add(member.id));
+      clusters.push(cluster.sort((a, b) => a.timestamp - b.timestamp));
+    }
+  }
+
+  return clusters;
+}
+
+function mostImportant(records: MemoryRecord[]): { kind: MemoryKind; importance: number } {
+  return records.map(memoryScore).reduce((best, score) => (score.importance > best.importance ? score : best));
+}
+
+/**
+ * Replaces the given memories with one carrying the merged text. The originals stay in
+ * the store, linked both ways, but leave the search indexes. The merged memory takes the
+ * newest original's timestamp, matching the merge, which favours the most recent statement.
+ * @returns the new memory's id, or undefined if fewer than two originals are still live
+ */
+export async function consolidateMemories(originalIds: number[], mergedText: string): Promise<number | undefined> {
+  // a memory may have been pinned while the merge was being written
+  const originals = (await getRecords(originalIds)).filter(record => isSearchable(record) && !record.pinned);
+  if (originals.length < 2 || !mergedText.trim()) return undefined;
+
+  const embedding = await generateEmbedding(mergedText);
+  const packed = packEmbedding(embedding);
+  const id = await addConsolidatedRecord({
+    role: originals[0].role,
+    text: mergedText.trim(),
+    ...packed,
+    timestamp: Math.max(...originals.map(record => record.timestamp)),
+    mergedFrom: originals.map(record => record.id),
+    // the merged memory is worth as much as the most important thing it replaced
+    ...mostImportant(originals),
+    embeddingModel: getEmbeddingModel(),
+    dimensions: embedding.length,
+    accessCount: originals.reduce((total, record) => total + (record.accessCount ?? 0), 0),
+  }, originals.map(record => record.id));
+
+  try {
+    await Promise.all([
+      indexMemory(id, unpackEmbedding(packed)),
+      indexMemoryText(id, mergedText.trim()),
+      ...originals.flatMap(record => [unindexMemory(record.id), unindexMemoryText(record.id)]),
+    ]);
+  } catch (error) {
+    // the store is already consistent; the indexes catch up when they next load
+    console.error('Failed to update the memory indexes after consolidation:', error);
+  }
+  return id;
+}
@@ -0,0 +1,217 @@
+// A turn embeds the user's words twice, once to search memory before replying and once to
+// store them afterwards, and summaries finishing close together each made their own request.
+// This sits in front of the embedding provider: results are cached by model and text hash,
+// in memory (LRU) and in IndexedDB, concurrent requests for the same text share one call,
+// and texts requested close together go out as one batched request.
+
+import { getMemoryLockState, openDB, requestToPromise, transactionDone, EMBEDDING_CACHE_STORE } from './indexeddb';
+
+export interface EmbeddingBackend {
+  readonly model: string;
+  embedBatch(texts: string[]): Promise<ArrayLike<number>[]>;
+}
+
+export interface EmbeddingServiceOptions {
+  memoryCacheSize?: number; // embeddings kept in memory, most recently used first
+  persistentCacheSize?: number; // embeddings kept in IndexedDB; the least recently used go first
+  maxBatchSize?: number; // texts per request
+  batchDelayMs?: number; // how long the first text waits for others to join its batch
+}
+
+interface CachedEmbedding {
+  key: string;
+  embedding: Float32Array;
+  usedAt: number;
+}
+
+interface PendingEmbedding {
+  key: string;
+  text: string;
+  resolve: (embedding: Float32Array) => void;
+  reject: (error: unknown) => void;
+}
+
+// writes between checks of the persistent cache's size
+const PRUNE_INTERVAL = 50;
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// an encrypted memory store keeps nothing revealing in the clear, cached embeddings included
+async function persistentCacheAllowed(): Promise<boolean> {
+  return await getMemoryLockState() === 'off';
+}
+
+/**
+ * Embeds texts through a backend with caching, deduplication and batching. Returned arrays
+ * are shared with the cache, so callers must not modify them.
+ */
+export class EmbeddingService {
+  private readonly backend: EmbeddingBackend;
+  private readonly memoryCacheSize: number;
+  private readonly persistentCacheSize: number;
+  private readonly maxBatchSize: number;
+  private readonly batchDelayMs: number;
+  // Map iteration order doubles as recency order
+  private readonly memoryCache = new Map<string, Float32Array>();
+  private readonly inFlight = new Map<string, Promise<Float32Array>>();
+  private queue: PendingEmbedding[] = [];
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private writesSincePrune = 0;
+
+  constructor(backend: EmbeddingBackend, {
+    memoryCacheSize = 500,
+    persistentCacheSize = 5000,
+    maxBatchSize = 64,
+    batchDelayMs = 10,
+  }: EmbeddingServiceOptions = {}) {
+    this.backend = backend;
+    this.memoryCacheSize = memoryCacheSize;
+    this.persistentCacheSize = persistentCacheSize;
+    this.maxBatchSize = maxBatchSize;
+    this.batchDelayMs = batchDelayMs;
+  }
+
+  get model(): string {
+    return this.backend.model;
+  }
+
+  embed(text: string): Promise<Float32Array> {
+    return this.embedOne(text);
+  }
+
+  embedMany(texts: string[]): Promise<Float32Array[]> {
+    return Promise.all(texts.map(text => this.embedOne(text)));
+  }
+
+  // the persistent cache is cleared along with the memories (see clearAllRecords)
+  clearMemoryCache() {
+    this.memoryCache.clear();
+  }
+
+  private async embedOne(text: string): Promise<Float32Array> {
+    const key = await this.cacheKey(text);
+
+    const cached = this.memoryCache.get(key);
+    if (cached) {
+      this.remember(key, cached);
+      return cached;
+    }
+
+    let pending = this.inFlight.get(key);
+    if (!pending) {
+      pending = this.lookupOrRequest(key, text).finally(() => this.inFlight.delete(key));
+      this.inFlight.set(key, pending);
+    }
+    return pending;
+  }
+
+  private async cacheKey(text: string): Promise<string> {
+    // crypto.subtle only exists in secure contexts; elsewhere the text itself is the key
+    const hash = globalThis.crypto?.subtle ? await sha256(text) : text;
+    return `${this.backend.model}:${hash}`;
+  }
+
+  private async lookupOrRequest(key: string, text: string): Promise<Float32Array> {
+    const stored = await this.readPersisted(key);
+    if (stored) {
+      this.remember(key, stored);
+      return stored;
+    }
+    const embedding = await new Promise<Float32Array>((resolve, reject) => {
+      this.enqueue({ key, text, resolve, reject });
+    });
+    this.remember(key, embedding);
+    return embedding;
+  }
+
+  private remember(key: string, embedding: Float32Array) {
+    this.memoryCache.delete(key);
+    this.memoryCache.set(key, embedding);
+    if (this.memoryCache.size > this.memoryCacheSize) {
+      this.memoryCache.delete(this.memoryCache.keys().next().value!);
+    }
+  }
+
+  private enqueue(pending: PendingEmbedding) {
+    this.queue.push(pending);
+    if (this.queue.length >= this.maxBatchSize) {
+      this.flush();
+    } else if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), this.batchDelayMs);
+    }
+  }
+
+  private flush() {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    const batch = this.queue.splice(0, this.maxBatchSize);
+    if (this.queue.length > 0) {
+      this.flushTimer = setTimeout(() => this.flush(), 0);
+    }
+    if (batch.length === 0) return;
+
+    this.backend.embedBatch(batch.map(pending => pending.text))
+      .then(results => {
+        const embeddings = results.map(result => Float32Array.from(result));
+        batch.forEach((pending, i) => pending.resolve(embeddings[i]));
+        this.writePersisted(batch.map((pending, i) => ({ key: pending.key, embedding: embeddings[i], usedAt: Date.now() })))
+          .catch(error => console.warn('Failed to cache embeddings:', error));
+      })
+      .catch(error => batch.forEach(pending => pending.reject(error)));
+  }
+
+  // the persistent cache only saves requests, so any failure reading it is a miss
+  private async readPersisted(key: string): Promise<Float32Array | undefined> {
+    try {
+      if (!(await persistentCacheAllowed())) return undefined;
+      const db = await openDB();
+      const transaction = db.transaction(EMBEDDING_CACHE_STORE, 'readwrite');
+      const store = transaction.objectStore(EMBEDDING_CACHE_STORE);
+      const entry = await requestToPromise(store.get(key)) as CachedEmbedding | undefined;
+      if (!entry) return undefined;
+      store.put({ ...entry, usedAt: Date.now() });
+      return entry.embedding;
+    } catch (error) {
+      console.warn('Failed to read the embedding cache:', error);
+      return undefined;
+    }
+  }
+
+  private async writePersisted(entries: CachedEmbedding[]): Promise<void> {
+    if (!(await persistentCacheAllowed())) return;
+    const db = await openDB();
+    const transaction = db.transaction(EMBEDDING_CACHE_STORE, 'readwrite');
+    const store = transaction.objectStore(EMBEDDING_CACHE_STORE);
+    entries.forEach(entry => store.put(entry));
+    await transactionDone(transaction);
+
+    this.writesSincePrune += entries.length;
+    if (this.writesSincePrune >= PRUNE_INTERVAL) {
+      this.writesSincePrune = 0;
+      await this.prunePersisted();
+    }
+  }
+
+  private async prunePersisted(): Promise<void> {
+    const db = await openDB();
+    const transaction = db.transaction(EMBEDDING_CACHE_STORE, 'readwrite');
+    const store = transaction.objectStore(EMBEDDING_CACHE_STORE);
+    let excess = await requestToPromise(store.count()) - this.persistentCacheSize;
+    if (excess <= 0) return;
+
+    const cursorRequest = store.index('usedAt').openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor || excess <= 0) return;
+      cursor.delete();
+      excess--;
+      cursor.continue();
+    };
+    await transactionDone(transaction);
+  }
+}
@@ -0,0 +1,74 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import { getProfile, saveProfileFacts } from '../profile';
+import { addTurn, createSession, getSession, getSessionTurns, updateSessionSummary } from '../sessions';
+import {
+  addRecords,
+  disableMemoryEncryption,
+  enableMemoryEncryption,
+  getAllRecords,
+  lockMemory,
+  openDB,
+  requestToPromise,
+  unlockMemory,
+  type MemoryRecord,
+} from './indexeddb';
+
+const PASSPHRASE = 'correct horse battery staple';
+// every store a conversation leaves something in
+const STORES = ['memories', 'sessions', 'turns', 'profile'];
+
+// everything readable in the stores without the key
+async function rawStores(): Promise<string> {
+  const db = await openDB();
+  const records = await Promise.all(
+    STORES.map(storeName => requestToPromise(db.transaction(storeName, 'readonly').objectStore(storeName).getAll())),
+  );
+  return JSON.stringify(records);
+}
+
+function memory(text: string): Omit<MemoryRecord, 'id'> {
+  return { role: 'user', text, timestamp: 1000, embedding: new Float32Array([1, 0, 0]), kind: 'fact', importance: 0.6 };
+}
+
+describe('memory encryption', () => {
+  it('seals memories, sessions, turns and profile facts', { timeout: 30_000 }, async () => {
+    await addRecords([memory('My sister Anna lives in Lyon')]);
+    const session = await createSession();
+    await addTurn(session.id, 'user', 'My dog is called Biscuit');
+    await addTurn(session.id, 'assistant', 'Biscuit is a lovely name!');
+    await updateSessionSummary(session.id, 'The user has a dog called Biscuit.', 2);
+    await saveProfileFacts(
+      [{ kind: 'relationship', subject: 'dog', value: 'Biscuit', confidence: 0.9 }],
+      { sessionId: session.id, text: 'My dog is called Biscuit' },
+    );
+    expect(await rawStores()).toContain('Biscuit');
+
+    await enableMemoryEncryption(PASSPHRASE);
+    await addTurn(session.id, 'user', 'Anna is visiting from Lyon next week');
+
+    const raw = await rawStores();
+    for (const secret of ['Biscuit', 'Anna', 'Lyon', 'lovely']) {
+      expect(raw).not.toContain(secret);
+    }
+
+    // unlocked, everything reads back as before
+    expect((await getSessionTurns(session.id)).map(turn => turn.content)).toEqual([
+      'My dog is called Biscuit',
+      'Biscuit is a lovely name!',
+      'Anna is visiting from Lyon next week',
+    ]);
+    expect((await getSession(session.id))?.summary).toBe('The user has a dog called Biscuit.');
+    expect((await getProfile()).map(fact => fact.value)).toEqual(['Biscuit']);
+    expect((await getAllRecords()).map(record => record.text)).toEqual(['My sister Anna lives in Lyon']);
+
+    lockMemory();
+    await expect(getProfile()).rejects.toThrow(/locked/);
+    await expect(getSessionTurns(session.id)).rejects.toThrow(/locked/);
+
+    expect(await unlockMemory(PASSPHRASE)).toBe(true);
+    await disableMemoryEncryption();
+    expect(await rawStores()).toContain('Anna is visiting from Lyon next week');
+    expect((await getProfile()).map(fact => fact.source.text)).toEqual(['My dog is called Biscuit']);
+  });
+});
@@ -0,0 +1,113 @@
+// At-rest encryption of memory records (see the encryption section of indexeddb.ts for
+// the lock state). A sealed record keeps only what the store itself needs in the clear:
+// its id, its timestamp (indexed) and consolidatedInto (set inside the consolidation
+// transaction, where there's no time to decrypt). Everything else, text, role, scores and
+// the embedding, is one AES-GCM ciphertext. Sessions, turns and profile facts are sealed
+// the same way (sealRecord): the fields their store is keyed and indexed on stay in the
+// clear, and the rest is one JSON ciphertext.
+
+import { IV_BYTES } from '../crypto';
+import type { MemoryRecord } from './indexeddb';
+
+export interface SealedData {
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+export interface SealedMemoryRecord {
+  id: number;
+  timestamp: number;
+  consolidatedInto?: number;
+  sealed: SealedData;
+}
+
+export interface SealedRecord {
+  sealed: SealedData;
+  [field: string]: unknown;
+}
+
+const VERIFIER_TEXT = 'os1-memory-key';
+
+export function isSealed(record: MemoryRecord | SealedMemoryRecord): record is SealedMemoryRecord {
+  return 'sealed' in record;
+}
+
+async function seal(plaintext: Uint8Array, key: CryptoKey): Promise<SealedData> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  return { iv, data: await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext) };
+}
+
+// the payload is a length-prefixed JSON header followed by the raw embedding bytes
+export async function sealMemory(
+  record: Omit<MemoryRecord, 'id'> & { id?: number },
+  key: CryptoKey,
+): Promise<Omit<SealedMemoryRecord, 'id'> & { id?: number }> {
+  const { id, embedding, timestamp, consolidatedInto, ...rest } = record;
+  const header = new TextEncoder().encode(JSON.stringify({
+    ...rest,
+    embeddingType: embedding instanceof Int8Array ? 'int8' : 'float32',
+  }));
+  const body = new Uint8Array(embedding.buffer, embedding.byteOffset, embedding.byteLength);
+
+  const payload = new Uint8Array(4 + header.length + body.length);
+  new DataView(payload.buffer).setUint32(0, header.length, true);
+  payload.set(header, 4);
+  payload.set(body, 4 + header.length);
+
+  const sealed = { timestamp, consolidatedInto, sealed: await seal(payload, key) };
+  // records being added have no id yet, and the store assigns one only if the key is absent
+  return id === undefined ? sealed : { ...sealed, id };
+}
+
+/**
+ * @throws if the key is wrong or the record was tampered with; nothing is written either way
+ */
+export async function openMemory(record: SealedMemoryRecord, key: CryptoKey): Promise<MemoryRecord> {
+  const payload = new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: record.sealed.iv }, key, record.sealed.data));
+  const headerLength = new DataView(payload.buffer).getUint32(0, true);
+  const { embeddingType, ...header } = JSON.parse(new TextDecoder().decode(payload.subarray(4, 4 + headerLength)));
+  // copied out, so the vector is aligned and doesn't hold on to the whole payload
+  const body = payload.slice(4 + headerLength).buffer;
+
+  return {
+    ...header,
+    id: record.id,
+    timestamp: record.timestamp,
+    consolidatedInto: record.consolidatedInto,
+    embedding: embeddingType === 'int8' ? new Int8Array(body) : new Float32Array(body),
+  };
+}
+
+export async function sealRecord(record: object, clearFields: string[], key: CryptoKey): Promise<SealedRecord> {
+  const inClear: Record<string, unknown> = {};
+  const rest: Record<string, unknown> = { ...record };
+  for (const field of clearFields) {
+    // an id the store is yet to assign stays absent
+    if (field in rest) inClear[field] = rest[field];
+    delete rest[field];
+  }
+  return { ...inClear, sealed: await seal(new TextEncoder().encode(JSON.stringify(rest)), key) };
+}
+
+/**
+ * @throws if the key is wrong or the record was tampered with
+ */
+export async function openRecord<T>(record: SealedRecord, key: CryptoKey): Promise<T> {
+  const { sealed, ...inClear } = record;
+  const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: sealed.iv }, key, sealed.data);
+  return { ...JSON.parse(new TextDecoder().decode(plaintext)), ...inClear } as T;
+}
+
+// a known plaintext sealed with the key, so a passphrase can be checked before anything is decrypted
+export function createVerifier(key: CryptoKey): Promise<SealedData> {
+  return seal(new TextEncoder().encode(VERIFIER_TEXT), key);
+}
+
+export async function verifyKey(verifier: SealedData, key: CryptoKey): Promise<boolean> {
+  try {
+    const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: verifier.iv }, key, verifier.data);
+    return new TextDecoder().decode(plaintext) === VERIFIER_TEXT;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,378 @@
+// Hierarchical Navigable Small World graph (Malkov & Yashunin, 2016) for approximate
+// nearest-neighbour search over memory embeddings. Vectors are normalized on insert, so
+// similarity is a plain dot product (= cosine similarity).
+
+export interface HNSWOptions {
+  M?: number; // links per node on the upper layers (twice that on layer 0)
+  efConstruction?: number;
+  efSearch?: number;
+}
+
+// what gets persisted: the graph, not the vectors (those already live in the memories store)
+export interface HNSWState {
+  M: number;
+  efConstruction: number;
+  entryPoint: number | null;
+  maxLevel: number;
+}
+
+export interface HNSWNode {
+  id: number;
+  level: number;
+  neighbors: number[][]; // per layer, 0 to level
+}
+
+export interface HNSWSearchResult {
+  id: number;
+  similarity: number;
+}
+
+interface GraphNode {
+  vector: Float32Array;
+  level: number;
+  neighbors: number[][];
+}
+
+interface Candidate {
+  id: number;
+  distance: number;
+}
+
+// binary heap ordered by `before`
+class Heap<T> {
+  private items: T[] = [];
+  private before: (a: T, b: T) => boolean;
+
+  constructor(before: (a: T, b: T) => boolean) {
+    this.before = before;
+  }
+
+  get size() {
+    return this.items.length;
+  }
+
+  peek(): T | undefined {
+    return this.items[0];
+  }
+
+  push(item: T) {
+    const items = this.items;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.before(items[i], items[parent])) break;
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last !== undefined) {
+      items[0] = last;
+      let i = 0;
+      while (true) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let next = i;
+        if (left < items.length && this.before(items[left], items[next])) next = left;
+        if (right < items.length && this.before(items[right], items[next])) next = right;
+        if (next === i) break;
+        [items[i], items[next]] = [items[next], items[i]];
+        i = next;
+      }
+    }
+    return top;
+  }
+
+  toArray(): T[] {
+    return [...this.items];
+  }
+}
+
+export function normalizeVector(vector: ArrayLike<number>): Float32Array {
+  const normalized = Float32Array.from(vector);
+  let sumOfSquares = 0;
+  for (let i = 0; i < normalized.length; i++) {
+    sumOfSquares += normalized[i] * normalized[i];
+  }
+  const magnitude = Math.sqrt(sumOfSquares);
+  if (magnitude > 0) {
+    for (let i = 0; i < normalized.length; i++) {
+      normalized[i] /= magnitude;
+    }
+  }
+  return normalized;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+export class HNSWIndex {
+  readonly M: number;
+  readonly efConstruction: number;
+  efSearch: number;
+  private readonly levelMultiplier: number;
+  private nodes = new Map<number, GraphNode>();
+  private entryPoint: number | null = null;
+  private maxLevel = -1;
+  // changes since the last takeChanges(), so only touched nodes get written back
+  private changed = new Set<number>();
+  private removed = new Set<number>();
+
+  constructor({ M = 16, efConstruction = 200, efSearch = 64 }: HNSWOptions = {}) {
+    this.M = M;
+    this.efConstruction = efConstruction;
+    this.efSearch = efSearch;
+    this.levelMultiplier = 1 / Math.log(M);
+  }
+
+  get size(): number {
+    return this.nodes.size;
+  }
+
+  has(id: number): boolean {
+    return this.nodes.has(id);
+  }
+
+  ids(): number[] {
+    return [...this.nodes.keys()];
+  }
+
+  insert(id: number, vector: ArrayLike<number>) {
+    if (this.nodes.has(id)) {
+      this.remove(id);
+    }
+
+    const level = Math.floor(-Math.log(1 - Math.random()) * this.levelMultiplier);
+    const node: GraphNode = {
+      vector: normalizeVector(vector),
+      level,
+      neighbors: Array.from({ length: level + 1 }, () => []),
+    };
+    this.nodes.set(id, node);
+    this.markChanged(id);
+
+    if (this.entryPoint === null) {
+      this.entryPoint = id;
+      this.maxLevel = level;
+      return;
+    }
+
+    // greedy descent through the layers above the new node's top layer
+    let entryPoints = [this.entryPoint];
+    for (let layer = this.maxLevel; layer > level; layer--) {
+      entryPoints = [this.searchLayer(node.vector, entryPoints, 1, layer)[0].id];
+    }
+
+    for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+      const candidates = this.searchLayer(node.vector, entryPoints, this.efConstruction, layer);
+      node.neighbors[layer] = this.selectNeighbors(candidates, this.M);
+
+      for (const neighborId of node.neighbors[layer]) {
+        const neighbor = this.nodes.get(neighborId);
+        if (!neighbor) continue;
+        neighbor.neighbors[layer].push(id);
+        if (neighbor.neighbors[layer].length > this.maxConnections(layer)) {
+          this.relink(neighborId, neighbor, layer, neighbor.neighbors[layer]);
+        }
+        this.markChanged(neighborId);
+      }
+      entryPoints = candidates.map(candidate => candidate.id);
+    }
+
+    if (level > this.maxLevel) {
+      this.maxLevel = level;
+      this.entryPoint = id;
+    }
+  }
+
+  remove(id: number) {
+    const node = this.nodes.get(id);
+    if (!node) return;
+    this.nodes.delete(id);
+    this.changed.delete(id);
+    this.removed.add(id);
+
+    // reconnect the removed node's neighbours among themselves so the graph stays navigable
+    for (let layer = 0; layer <= node.level; layer++) {
+      for (const neighborId of node.neighbors[layer]) {
+        const neighbor = this.nodes.get(neighborId);
+        if (!neighbor || !neighbor.neighbors[layer].includes(id)) continue;
+        const pool = new Set([...neighbor.neighbors[layer], ...node.neighbors[layer]]);
+        pool.delete(id);
+        pool.delete(neighborId);
+        this.relink(neighborId, neighbor, layer, [...pool]);
+        this.markChanged(neighborId);
+      }
+    }
+
+    if (this.entryPoint === id) {
+      this.entryPoint = null;
+      this.maxLevel = -1;
+      for (const [otherId, other] of this.nodes) {
+        if (other.level > this.maxLevel) {
+          this.maxLevel = other.level;
+          this.entryPoint = otherId;
+        }
+      }
+    }
+  }
+
+  search(query: ArrayLike<number>, k: number, ef = this.efSearch): HNSWSearchResult[] {
+    if (this.entryPoint === null || k <= 0) return [];
+    const vector = normalizeVector(query);
+
+    let entryPoints = [this.entryPoint];
+    for (let layer = this.maxLevel; layer > 0; layer--) {
+      entryPoints = [this.searchLayer(vector, entryPoints, 1, layer)[0].id];
+    }
+
+    return this.searchLayer(vector, entryPoints, Math.max(ef, k), 0)
+      .slice(0, k)
+      .map(({ id, distance }) => ({ id, similarity: 1 - distance }));
+  }
+
+  // --- Persistence ---
+
+  getState(): HNSWState {
+    return { M: this.M, efConstruction: this.efConstruction, entryPoint: this.entryPoint, maxLevel: this.maxLevel };
+  }
+
+  exportNode(id: number): HNSWNode | undefined {
+    const node = this.nodes.get(id);
+    return node && { id, level: node.level, neighbors: node.neighbors.map(layer => [...layer]) };
+  }
+
+  takeChanges(): { changed: HNSWNode[]; removed: number[] } {
+    const changed = [...this.changed].flatMap(id => this.exportNode(id) ?? []);
+    const removed = [...this.removed];
+    this.changed.clear();
+    this.removed.clear();
+    return { changed, removed };
+  }
+
+  // rebuilds an index from persisted nodes; nodes without a vector are dropped
+  static restore(
+    state: HNSWState,
+    nodes: HNSWNode[],
+    vectors: Map<number, ArrayLike<number>>,
+    options: Pick<HNSWOptions, 'efSearch'> = {},
+  ): HNSWIndex {
+    const index = new HNSWIndex({ M: state.M, efConstruction: state.efConstruction, ...options });
+    for (const { id, level, neighbors } of nodes) {
+      const vector = vectors.get(id);
+      if (!vector) continue;
+      index.nodes.set(id, { vector: normalizeVector(vector), level, neighbors });
+    }
+
+    if (state.entryPoint !== null && index.nodes.has(state.entryPoint)) {
+      index.entryPoint = state.entryPoint;
+      index.maxLevel = state.maxLevel;
+    } else {
+      for (const [id, node] of index.nodes) {
+        if (node.level > index.maxLevel) {
+          index.maxLevel = node.level;
+          index.entryPoint = id;
+        }
+      }
+    }
+    return index;
+  }
+
+  // --- Internals ---
+
+  private maxConnections(layer: number): number {
+    return layer === 0 ? this.M * 2 : this.M;
+  }
+
+  private markChanged(id: number) {
+    this.changed.add(id);
+    this.removed.delete(id);
+  }
+
+  private distance(a: Float32Array, b: Float32Array): number {
+    return 1 - dot(a, b);
+  }
+
+  // beam search on one layer; returns up to ef candidates, closest first
+  private searchLayer(query: Float32Array, entryPoints: number[], ef: number, layer: number): Candidate[] {
+    const visited = new Set<number>();
+    const candidates = new Heap<Candidate>((a, b) => a.distance < b.distance);
+    const results = new Heap<Candidate>((a, b) => a.distance > b.distance);
+
+    for (const id of entryPoints) {
+      const node = this.nodes.get(id);
+      if (!node || visited.has(id)) continue;
+      visited.add(id);
+      const candidate = { id, distance: this.distance(query, node.vector) };
+      candidates.push(candidate);
+      results.push(candidate);
+    }
+
+    while (candidates.size > 0) {
+      const closest = candidates.pop()!;
+      const furthest = results.peek()!;
+      if (closest.distance > furthest.distance && results.size >= ef) break;
+
+      const node = this.nodes.get(closest.id);
+      for (const neighborId of node?.neighbors[layer] ?? []) {
+        if (visited.has(neighborId)) continue;
+        visited.add(neighborId);
+        // links to removed nodes can linger until the owner is relinked
+        const neighbor = this.nodes.get(neighborId);
+        if (!neighbor) continue;
+
+        const distance = this.distance(query, neighbor.vector);
+        if (results.size < ef || distance < results.peek()!.distance) {
+          const candidate = { id: neighborId, distance };
+          candidates.push(candidate);
+          results.push(candidate);
+          if (results.size > ef) results.pop();
+        }
+      }
+    }
+
+    return results.toArray().sort((a, b) => a.distance - b.distance);
+  }
+
+  // the paper's heuristic: skip a candidate that is closer to an already picked neighbour
+  // than to the base node, so links spread out instead of clustering
+  private selectNeighbors(candidates: Candidate[], count: number): number[] {
+    const selected: Candidate[] = [];
+    const skipped: Candidate[] = [];
+
+    for (const candidate of candidates) {
+      if (selected.length >= count) break;
+      const vector = this.nodes.get(candidate.id)?.vector;
+      if (!vector) continue;
+      const diverse = selected.every(picked =>
+        this.distance(vector, this.nodes.get(picked.id)!.vector) > candidate.distance,
+      );
+      (diverse ? selected : skipped).push(candidate);
+    }
+
+    // top up with the closest skipped ones so nodes keep their full degree
+    for (const candidate of skipped) {
+      if (selected.length >= count) break;
+      selected.push(candidate);
+    }
+    return selected.map(candidate => candidate.id);
+  }
+
+  private relink(id: number, node: GraphNode, layer: number, pool: number[]) {
+    const candidates = pool
+      .filter(candidateId => candidateId !== id && this.nodes.has(candidateId))
+      .map(candidateId => ({ id: candidateId, distance: this.distance(node.vector, this.nodes.get(candidateId)!.vector) }))
+      .sort((a, b) => a.distance - b.distance);
+    node.neighbors[layer] = this.selectNeighbors(candidates, this.maxConnections(layer));
+  }
+}
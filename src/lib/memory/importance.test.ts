@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { scoreMemory } from './importance';
+
+// retention archives memories below this after a while (see retention.ts)
+const LOW_IMPORTANCE = 0.3;
+
+describe('scoreMemory', () => {
+  it.each([
+    // what the user said
+    'My dog is called Biscuit',
+    'I work at Acme as a product designer',
+    // long inputs, stored as the worker's summary of them
+    "The user's dog is called Biscuit and loves the beach.",
+    'The user has a sister named Anna who lives in Lyon.',
+    'The speaker works as a nurse in Leeds and is allergic to penicillin.',
+    'The user is from Portugal and prefers tea to coffee.',
+    // consolidated memories, in either voice
+    'I work at Acme as a product designer and my sister Anna lives in Lyon.',
+    'The user studies Japanese and their birthday is June 3rd.',
+  ])('scores "%s" as a fact worth keeping', text => {
+    const { kind, importance } = scoreMemory(text);
+    expect(kind).toBe('fact');
+    expect(importance).toBeGreaterThanOrEqual(LOW_IMPORTANCE);
+  });
+
+  it('scores a summarized life event as one', () => {
+    expect(scoreMemory('The user quit their job to start a bakery.').importance).toBeGreaterThanOrEqual(0.9);
+  });
+
+  it.each(['ok cool', 'The user said hello and asked how Samantha was.'])('scores "%s" as small talk', text => {
+    const { kind, importance } = scoreMemory(text);
+    expect(kind).toBe('smalltalk');
+    expect(importance).toBeLessThan(LOW_IMPORTANCE);
+  });
+});
@@ -0,0 +1,47 @@
+import type { MemoryKind } from './indexeddb';
+
+export interface MemoryScore {
+  kind: MemoryKind;
+  importance: number; // 0 to 1
+}
+
+// Life events outweigh everything else, whatever kind they turn out to be
+const LIFE_EVENT = /\b(passed away|died|dying|funeral|diagnos\w*|cancer|hospital\w*|pregnan\w*|miscarriage|engaged|married|wedding|divorc\w*|broke up|break ?up|new job|fired|laid off|quit (?:my|their) job|promot\w*|moved to|moving to|graduat\w*|born|retir\w*)\b/i;
+// Summaries and consolidated memories speak of "the user" (or "the speaker") where the
+// user said "I", so the first-person patterns take either.
+const THIRD_PERSON = String.raw`the (?:user|speaker|author)`;
+const SUBJECT = String.raw`(?:i|${THIRD_PERSON})`;
+const POSSESSIVE = String.raw`(?:my|their|${THIRD_PERSON}['’]s)`;
+const CLOSE_TO = 'wife|husband|partner|boyfriend|girlfriend|mom|mother|mum|dad|father|sister|brother|son|daughter|kids?|children|friend|boss|dog|cat|pet';
+const FACT = new RegExp(
+  String.raw`\b(${POSSESSIVE} name is|i'?m called|call me|${THIRD_PERSON} (?:is called|is named|goes by)` +
+  String.raw`|${POSSESSIVE} (${CLOSE_TO}|birthday|anniversary)|${SUBJECT} (?:has|have) an? (${CLOSE_TO})` +
+  String.raw`|${SUBJECT} (loves?|hates?|likes?|dislikes?|prefers?|works?|lives?|stud(?:y|ies)|grew up|(?:am|is) allergic)` +
+  String.raw`|(?:i'?m|${THIRD_PERSON} is) (a|an|from|allergic))\b`,
+  'i',
+);
+const EVENT = /\b(today|tonight|tomorrow|yesterday|this (morning|afternoon|evening|weekend)|next (week|month|year)|last (week|month|year|night)|on (monday|tuesday|wednesday|thursday|friday|saturday|sunday)|meeting|interview|trip|vacation|holiday|appointment|exam|party|date)\b/i;
+const FEELING = /\b(feels?|feeling|felt|sad|anxious|anxiety|stressed|happy|lonely|excited|worried|scared|afraid|angry|upset|depressed|hurt|grateful|proud|overwhelmed)\b/i;
+
+/**
+ * Scores a memory when it is written: what kind it is, which sets how fast it fades (see
+ * retention.ts), and how much it matters. A cheap local heuristic, so every memory gets one.
+ */
+export function scoreMemory(text: string): MemoryScore {
+  const kind: MemoryKind = FACT.test(text) ? 'fact'
+    : EVENT.test(text) ? 'event'
+    : FEELING.test(text) ? 'feeling'
+    : 'smalltalk';
+
+  const base: Record<MemoryKind, number> = { fact: 0.6, event: 0.5, feeling: 0.5, smalltalk: 0.2 };
+  let importance = base[kind];
+  if (LIFE_EVENT.test(text)) {
+    importance = 0.9;
+  }
+
+  // longer statements tend to carry more, up to a point
+  const words = text.split(/\s+/).filter(Boolean).length;
+  importance += Math.min(words / 100, 0.1);
+
+  return { kind, importance: Math.min(importance, 1) };
+}
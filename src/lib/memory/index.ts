@@ -1,36 +1,116 @@
-import { generateEmbedding } from './openai-embedding';
-import { addRecord, getAllRecords, deleteRecord, type MemoryRecord } from './indexeddb';
-import { cosineSimilarity } from './similarity';
+import { generateEmbedding, getEmbeddingModel, resetEmbeddingCache } from './openai-embedding';
+import { addRecord, addRecords, getAllRecords, getRecords, deleteRecords, clearAllRecords, updateRecords, embeddingDimensionsOf, embeddingModelOf, isSearchable, lockMemory, unlockMemory, type MemoryRecord } from './indexeddb';
+import { indexMemory, unindexMemory, searchMemoryIndex, resetMemoryIndex } from './annIndex';
+import { indexMemoryText, unindexMemoryText, searchLexicalIndex, resetLexicalIndex } from './lexicalIndex';
+import { cosineSimilarity, embeddingSimilarity, normalizeEmbedding, packEmbedding, unpackEmbedding } from './similarity';
+import { scoreMemory } from './importance';
+import { getRetentionPolicy, memoryRecency, memoryScore } from './retention';
 
 export interface MemorySearchResult {
     id: number;
     role: 'user' | 'assistant';
     text: string;
     timestamp: number;
-    similarity: number;
+    similarity: number; // 0 in lexical mode, which skips the embedding
+    lexicalScore?: number; // BM25, 0 when no query term matched
     recency?: number; 
+    importance?: number;
     relevance?: number; 
 }
 
+export type MemorySearchMode = 'vector' | 'lexical' | 'hybrid';
+
+export interface MemorySearchWeights {
+    similarity: number; // vector match
+    lexical: number; // keyword match (ignored in vector mode)
+    recency: number;
+    importance: number;
+}
+
+export interface MemorySearchOptions {
+    topK?: number;
+    mode?: MemorySearchMode;
+    weights?: Partial<MemorySearchWeights>;
+}
+
 export { type MemoryRecord };
 
-// generates the embedding to be used for the memory
-export async function addMemory(text: string, role: 'user' | 'assistant'): Promise<number> {
+// how many ANN candidates to pull before re-ranking with recency; recency can lift an
+// older-but-similar memory past a closer one, so fetch well beyond topK
+const MIN_CANDIDATES = 50;
+const CANDIDATE_MULTIPLIER = 4;
+// the usual reciprocal rank fusion constant; damps the gap between the top few ranks
+const RRF_K = 60;
+const DEFAULT_WEIGHTS: MemorySearchWeights = { similarity: 0.7, lexical: 0.5, recency: 0.3, importance: 0.2 };
+
+function readWeight(value: string | undefined, fallback: number): number {
+    const parsed = parseFloat(value ?? '');
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+// search settings from the environment, used for whatever a caller doesn't pass
+export function getMemorySearchDefaults(): { mode: MemorySearchMode; weights: MemorySearchWeights } {
+    const env = import.meta.env;
+    const mode = env.VITE_MEMORY_SEARCH_MODE;
+    return {
+        mode: mode === 'vector' || mode === 'lexical' ? mode : 'hybrid',
+        weights: {
+            similarity: readWeight(env.VITE_MEMORY_SIMILARITY_WEIGHT, DEFAULT_WEIGHTS.similarity),
+            lexical: readWeight(env.VITE_MEMORY_LEXICAL_WEIGHT, DEFAULT_WEIGHTS.lexical),
+            recency: readWeight(env.VITE_MEMORY_RECENCY_WEIGHT, DEFAULT_WEIGHTS.recency),
+            importance: readWeight(env.VITE_MEMORY_IMPORTANCE_WEIGHT, DEFAULT_WEIGHTS.importance),
+        },
+    };
+}
+
+// 1-based position of each id in a ranking
+function rankOf(ids: number[]): Map<number, number> {
+    return new Map(ids.map((id, index) => [id, index + 1]));
+}
+
+function reciprocalRank(rank: number | undefined): number {
+    return rank === undefined ? 0 : 1 / (RRF_K + rank);
+}
+
+// nearest neighbours from the HNSW index; an index that can't take the query (its vectors
+// are from before a model change) leaves the search to keyword matches instead of failing it
+async function searchVectors(queryEmbedding: Float32Array, k: number) {
+    try {
+        return await searchMemoryIndex(queryEmbedding, k);
+    } catch (error) {
+        console.warn("Vector search failed, falling back to keyword matches:", error);
+        return [];
+    }
+}
+
+// generates the embedding to be used for the memory; `pinned` keeps it from retention and consolidation
+export async function addMemory(text: string, role: 'user' | 'assistant', options: { pinned?: boolean } = {}): Promise<number> {
     try {
         //console.log(`Generating embedding for memory (${role}): "${text.substring(0, 50)}..."`);
         const embedding = await generateEmbedding(text);
         //console.log(`Embedding generated, size: ${embedding.length}`);
 
+        const packed = packEmbedding(embedding);
         const record: Omit<MemoryRecord, 'id'> = {
             role,
             text,
-            embedding,
+            ...packed,
+            ...scoreMemory(text),
+            embeddingModel: getEmbeddingModel(),
+            dimensions: embedding.length,
             timestamp: Date.now(),
+            ...(options.pinned && { pinned: true }),
         };
 
         //console.log("Adding record to IndexedDB...");
         const id = await addRecord(record);
         //console.log(`Memory added successfully with ID: ${id}`);
+        try {
+            await Promise.all([indexMemory(id, unpackEmbedding(packed)), indexMemoryText(id, text)]);
+        } catch (error) {
+            // the record is saved; the index picks it up when it next loads
+            console.error(`Failed to index memory ${id}:`, error);
+        }
         return id;
     } catch (error) {
         console.error("Failed to add memory:", error);
@@ -39,36 +119,46 @@ export async function addMemory(text: string, role: 'user' | 'assistant'): Promi
 }
 
 /** thank you my good friend gemini-2.5-pro-exp-03-25, LGTM :)
- * Finds memories similar to the query text, considering recency.
- * @param queryText - The text to search for similar memories.
- * @param topK - The maximum number of similar memories to return.
- * @param similarityWeight - Weight for semantic similarity (0.0 to 1.0).
- * @param recencyWeight - Weight for recency (0.0 to 1.0).
+ * Finds memories relevant to the query text, considering recency.
+ * - `vector`: cosine similarity against the query embedding (the original behaviour)
+ * - `lexical`: BM25 keyword match, no embedding call
+ * - `hybrid`: both rankings fused with weighted reciprocal rank fusion, so a memory that
+ *   names the exact person or date can beat one that is merely on-topic
+ * @param queryText - The text to search for.
+ * @param options - topK, mode and weights; unset ones fall back to the VITE_MEMORY_* settings.
  * @returns Promise resolving with an array of the top K most relevant memories, sorted by relevance descending.
  */
 export async function findSimilarMemories(
-    queryText: string, 
-    topK: number = 10, 
-    similarityWeight: number = 0.7, // Default weight for similarity
-    recencyWeight: number = 0.3   // Default weight for recency
+    queryText: string,
+    options: MemorySearchOptions = {}
 ): Promise<MemorySearchResult[]> {
-    if (similarityWeight + recencyWeight === 0) {
-        console.warn("Similarity and Recency weights cannot both be zero. Using defaults.");
-        similarityWeight = 0.7;
-        recencyWeight = 0.3;
+    const defaults = getMemorySearchDefaults();
+    const topK = options.topK ?? 10;
+    const mode = options.mode ?? defaults.mode;
+    let weights: MemorySearchWeights = { ...defaults.weights, ...options.weights };
+    const matchWeight = mode === 'vector' ? weights.similarity
+        : mode === 'lexical' ? weights.lexical
+        : weights.similarity + weights.lexical;
+    if (matchWeight + weights.recency + weights.importance === 0) {
+        console.warn("Match, Recency and Importance weights cannot all be zero. Using defaults.");
+        weights = { ...DEFAULT_WEIGHTS };
     }
 
     try {
-        //console.log(`Finding similar memories for query: "${queryText.substring(0, 50)}..." (Weights: Sim=${similarityWeight}, Rec=${recencyWeight})`);
-        
-        //console.log("Generating query embedding...");
-        const queryEmbedding = await generateEmbedding(queryText);
-        //console.log(`Query embedding generated, size: ${queryEmbedding.length}`);
+        const candidateCount = Math.max(topK * CANDIDATE_MULTIPLIER, MIN_CANDIDATES);
 
-        
-        //console.log("Retrieving all memory records from IndexedDB...");
-        const allRecords = await getAllRecords();
-        //console.log(`Retrieved ${allRecords.length} records.`);
+        // stored embeddings are unit length, so normalizing the query makes similarity a dot product
+        const queryEmbedding = mode === 'lexical' ? null : normalizeEmbedding(await generateEmbedding(queryText));
+
+        // Narrow the search to the nearest neighbours from the HNSW index and/or the best
+        // keyword matches, then re-rank those
+        const [vectorHits, lexicalHits] = await Promise.all([
+            queryEmbedding ? searchVectors(queryEmbedding, candidateCount) : [],
+            mode === 'vector' ? [] : searchLexicalIndex(queryText, candidateCount),
+        ]);
+        const candidateIds = [...new Set([...vectorHits, ...lexicalHits].map(hit => hit.id))];
+        // records deleted behind the index's back simply don't come back, and merged or archived ones are skipped
+        const allRecords = (await getRecords(candidateIds)).filter(isSearchable);
 
         if (allRecords.length === 0) {
             return []; 
@@ -76,21 +166,51 @@ export async function findSimilarMemories(
 
         // --- Recency Calculation Setup ---
         const now = Date.now();
-        const halfLifeSeconds = 60 * 60 * 24; // Relevance halves roughly every day
-        const decayRate = Math.log(2) / halfLifeSeconds;
+        // Each kind of memory fades at its own rate, counted from when it was last used
+        const retentionPolicy = getRetentionPolicy();
         // --- End Recency Setup ---
 
-        // 3. Calculate similarity, recency, and relevance for each record
-        //console.log("Calculating relevance (similarity + recency)...");
+        // --- Rank Setup ---
+        // keyword matches whose vectors are stale (another model, or other dimensions while
+        // the store is being re-embedded) get no vector similarity
+        const embeddingModel = queryEmbedding ? getEmbeddingModel() : undefined;
+        const similarities = new Map(allRecords.map(record => [
+            record.id,
+            queryEmbedding && embeddingModelOf(record) === embeddingModel && embeddingDimensionsOf(record) === queryEmbedding.length
+                ? embeddingSimilarity(queryEmbedding, record)
+                : 0,
+        ]));
+        const vectorRanks = rankOf([...similarities].sort((a, b) => b[1] - a[1]).map(([id]) => id));
+        const lexicalScores = new Map(lexicalHits.map(hit => [hit.id, hit.score]));
+        const lexicalRanks = rankOf(lexicalHits.map(hit => hit.id));
+        const maxLexicalScore = lexicalHits[0]?.score ?? 0;
+        // --- End Rank Setup ---
+
+        // 3. Calculate the match score, recency, and relevance for each candidate
         const scoredResults: MemorySearchResult[] = allRecords.map(record => {
-            const similarity = cosineSimilarity(queryEmbedding, record.embedding);
-            
-            // Calculate recency score (exponential decay)
-            const timeDiffSeconds = (now - record.timestamp) / 1000;
-            const recency = Math.exp(-decayRate * timeDiffSeconds);
+            const similarity = similarities.get(record.id) ?? 0;
+            const lexicalScore = lexicalScores.get(record.id) ?? 0;
+
+            const { importance } = memoryScore(record);
+
+            let match: number;
+            if (mode === 'vector') {
+                match = weights.similarity * similarity;
+            } else if (mode === 'lexical') {
+                match = maxLexicalScore > 0 ? weights.lexical * (lexicalScore / maxLexicalScore) : 0;
+            } else {
+                // RRF scaled so first place in a ranking is worth that ranking's full weight
+                match = (RRF_K + 1) * (
+                    weights.similarity * reciprocalRank(vectorRanks.get(record.id)) +
+                    weights.lexical * reciprocalRank(lexicalRanks.get(record.id))
+                );
+            }
+
+            // Calculate recency score (exponential decay at the memory kind's half-life)
+            const recency = memoryRecency(record, now, retentionPolicy);
 
             // Combine scores
-            const relevance = (similarityWeight * similarity) + (recencyWeight * recency);
+            const relevance = match + (weights.recency * recency) + (weights.importance * importance);
 
             return {
                 id: record.id,
@@ -98,7 +218,9 @@ export async function findSimilarMemories(
                 text: record.text,
                 timestamp: record.timestamp,
                 similarity: similarity,
+                lexicalScore: lexicalScore,
                 recency: recency,
+                importance: importance,
                 relevance: relevance,
             };
         });
@@ -107,16 +229,7 @@ export async function findSimilarMemories(
         scoredResults.sort((a, b) => (b.relevance ?? 0) - (a.relevance ?? 0));
 
         // 5. Return the top K results
-        const results = scoredResults.slice(0, topK);
-        // console.log(`Found ${results.length} most relevant memories (top ${topK}):`, results.map(r => ({ 
-        //     id: r.id, 
-        //     role: r.role, 
-        //     sim: r.similarity.toFixed(4), 
-        //     rec: r.recency?.toFixed(4), 
-        //     rel: r.relevance?.toFixed(4) 
-        // }))); 
-
-        return results;
+        return scoredResults.slice(0, topK);
     } catch (error) {
         console.error("Failed to find similar memories:", error);
         throw error; 
@@ -133,16 +246,169 @@ export async function getAllMemories(): Promise<MemoryRecord[]> {
     }
 }
 
-export async function deleteMemory(id: number): Promise<void> {
+// takes the originals of a consolidated memory with it (see deleteMemories)
+export async function deleteMemory(id: number): Promise<number[]> {
+    return deleteMemories([id]);
+}
+
+// --- Editing (see MemoryViewer) ---
+
+// the ids plus every memory merged into them, however deep: a consolidated memory's originals
+// hold the same facts, so forgetting it has to take them too
+function withMergedSources(ids: number[], records: MemoryRecord[]): number[] {
+    const sources = new Map<number, number[]>();
+    for (const record of records) {
+        sources.set(record.id, [...(sources.get(record.id) ?? []), ...(record.mergedFrom ?? [])]);
+        // the link back covers a merged memory whose mergedFrom was lost
+        if (record.consolidatedInto !== undefined) {
+            sources.set(record.consolidatedInto, [...(sources.get(record.consolidatedInto) ?? []), record.id]);
+        }
+    }
+    const found = new Set<number>();
+    const pending = [...ids];
+    for (let id = pending.pop(); id !== undefined; id = pending.pop()) {
+        if (found.has(id)) continue;
+        found.add(id);
+        pending.push(...(sources.get(id) ?? []));
+    }
+    return [...found];
+}
+
+/**
+ * Deletes memories along with the originals they were consolidated from.
+ * @returns every id that was deleted
+ */
+export async function deleteMemories(ids: number[]): Promise<number[]> {
+    if (ids.length === 0) return [];
     try {
-        await deleteRecord(id);
+        const records = await getAllRecords();
+        const stored = new Set(records.map(record => record.id));
+        const deleted = withMergedSources(ids, records).filter(id => stored.has(id));
+        await deleteRecords(deleted);
+        await Promise.all(deleted.flatMap(id => [unindexMemory(id), unindexMemoryText(id)]));
+        return deleted;
     } catch (error) {
-        console.error(`Failed to delete memory with ID ${id}:`, error);
-        throw error; // Re-throw
+        console.error(`Failed to delete ${ids.length} memories:`, error);
+        throw error;
+    }
+}
+
+/**
+ * Replaces a memory's text and re-embeds it with the current model. Its kind is scored
+ * again from the new text; importance keeps whatever the memory had earned through use.
+ * @returns the updated memory, or undefined if it no longer exists
+ */
+export async function editMemory(id: number, text: string): Promise<MemoryRecord | undefined> {
+    const embedding = await generateEmbedding(text);
+    const packed = packEmbedding(embedding);
+    const scored = scoreMemory(text);
+    const [updated] = await updateRecords([id], record => ({
+        ...record,
+        ...packed,
+        text,
+        kind: scored.kind,
+        importance: Math.max(record.importance ?? scored.importance, scored.importance),
+        embeddingModel: getEmbeddingModel(),
+        dimensions: embedding.length,
+    }));
+    if (updated && isSearchable(updated)) {
+        await Promise.all([indexMemory(id, unpackEmbedding(packed)), indexMemoryText(id, text)]);
+    }
+    return updated;
+}
+
+export async function setMemoryPinned(id: number, pinned: boolean): Promise<void> {
+    await updateRecords([id], record => {
+        const next: MemoryRecord = { ...record, pinned };
+        if (!pinned) delete next.pinned;
+        return next;
+    });
+}
+
+// the same statement from the same moment, however it got into the store
+function memoryKey({ role, text, timestamp }: MemoryRecord): string {
+    return `${role}:${timestamp}:${text}`;
+}
+
+/**
+ * Adds memories from elsewhere (a backup), skipping ones already stored. They get new ids,
+ * and consolidation links between them are carried over to those ids. Vectors from another
+ * embedding model are kept until reembedMemories catches them up.
+ * @returns the number of memories added, and each backup id's id in the store
+ */
+export async function importMemories(records: MemoryRecord[]): Promise<{ added: number; memoryIds: Map<number, number> }> {
+    const existing = new Map((await getAllRecords()).map(record => [memoryKey(record), record.id]));
+    const idMap = new Map<number, number>();
+    const incoming: MemoryRecord[] = [];
+    for (const record of records) {
+        const existingId = existing.get(memoryKey(record));
+        if (existingId === undefined) {
+            incoming.push(record);
+        } else {
+            idMap.set(record.id, existingId);
+        }
     }
+
+    const ids = await addRecords(incoming.map(record => {
+        const copy: Partial<MemoryRecord> = { ...record };
+        delete copy.id;
+        return copy as Omit<MemoryRecord, 'id'>;
+    }));
+    incoming.forEach((record, i) => idMap.set(record.id, ids[i]));
+
+    await updateRecords(ids, record => {
+        if (!record.mergedFrom && record.consolidatedInto === undefined) return undefined;
+        return {
+            ...record,
+            mergedFrom: record.mergedFrom?.flatMap(id => idMap.get(id) ?? []),
+            consolidatedInto: record.consolidatedInto === undefined ? undefined : idMap.get(record.consolidatedInto),
+        };
+    });
+
+    // both indexes pick the new memories up when they next load
+    resetMemoryIndex();
+    resetLexicalIndex();
+    return { added: ids.length, memoryIds: idMap };
+}
+
+export async function clearAllMemories(): Promise<void> {
+    await clearAllRecords();
+    resetMemoryIndex();
+    resetLexicalIndex();
+    resetEmbeddingCache();
+}
+
+// --- Encryption at rest (see indexeddb.ts) ---
+// The indexes hold vectors and texts in memory, so they're dropped on lock and rebuilt from
+// the decrypted store after unlock.
+
+function resetLoadedMemories() {
+    resetMemoryIndex();
+    resetLexicalIndex();
+    resetEmbeddingCache();
+}
+
+/**
+ * @returns false if the passphrase is wrong, in which case nothing has changed
+ */
+export async function unlockMemories(passphrase: string): Promise<boolean> {
+    const unlocked = await unlockMemory(passphrase);
+    if (unlocked) resetLoadedMemories();
+    return unlocked;
+}
+
+export function lockMemories(): void {
+    lockMemory();
+    resetLoadedMemories();
 }
 
 
-export { deleteRecord, clearAllRecords, getRecord, getAllRecords } from './indexeddb';
-export { preloadEmbeddingModel } from './openai-embedding';
+export { deleteRecord, clearAllRecords, getRecord, getAllRecords, isSearchable } from './indexeddb';
+export { enableMemoryEncryption, disableMemoryEncryption, getMemoryLockState, type MemoryLockState } from './indexeddb';
+export { getMemoryIndex } from './annIndex';
+export { findDuplicateClusters, consolidateMemories, type ConsolidationOptions } from './consolidation';
+export { applyRetentionPolicy, getRetentionPolicy, reinforceMemories, type RetentionPolicy, type RetentionResult } from './retention';
+export { scoreMemory } from './importance';
+export { reembedMemories, findStaleMemories, type ReembedOptions, type ReembedProgress } from './reembed';
+export { preloadEmbeddingModel, generateEmbeddings, getEmbeddingModel } from './openai-embedding';
 export { generateEmbedding, cosineSimilarity }; 
\ No newline at end of file
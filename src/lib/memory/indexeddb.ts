@@ -1,19 +1,76 @@
+import type { HNSWNode, HNSWState } from './hnsw';
+import { packEmbedding, type PackedEmbedding } from './similarity';
+import { createVerifier, isSealed, openMemory, openRecord, sealMemory, sealRecord, verifyKey, type SealedData, type SealedMemoryRecord, type SealedRecord } from './encryption';
+import { PBKDF2_ITERATIONS, SALT_BYTES, deriveKey } from '../crypto';
+
 const DB_NAME = 'Brain'; // had to call it that 
-const DB_VERSION = 1;
+const DB_VERSION = 6;
 const STORE_NAME = 'memories';
+// conversation history, see src/lib/sessions (added in version 2)
+export const SESSIONS_STORE = 'sessions';
+export const TURNS_STORE = 'turns';
+// HNSW graph over the memory embeddings, one record per memory (added in version 3)
+const ANN_NODES_STORE = 'annNodes';
+// small singleton records, keyed by name
+const META_STORE = 'meta';
+const ANN_STATE_KEY = 'hnsw';
+// durable facts about the user, see src/lib/profile (added in version 5)
+export const PROFILE_STORE = 'profile';
+// embeddings by model and text hash, see embeddingService.ts (added in version 6)
+export const EMBEDDING_CACHE_STORE = 'embeddingCache';
 
-export interface MemoryRecord {
+// embeddings are stored normalized, as Float32Array or int8 (see similarity.ts); records
+// written before version 4 held plain number[] and are converted on upgrade
+export interface MemoryRecord extends PackedEmbedding {
   id: number;
   role: 'user' | 'assistant';
   text: string;
-  embedding: number[];
   timestamp: number;
+  // consolidation links (see consolidation.ts): a merged memory lists the originals it
+  // replaced, and each original points at it and drops out of search
+  mergedFrom?: number[];
+  consolidatedInto?: number;
+  // retention (see retention.ts); records written before these existed get the defaults there
+  kind?: MemoryKind;
+  importance?: number; // 0 to 1, scored at write time and raised when the memory is used
+  accessCount?: number;
+  lastAccessedAt?: number;
+  archivedAt?: number; // set when the retention policy archives instead of deleting
+  // vectors from different models live in different spaces and are never compared; see
+  // reembed.ts for how the store catches up after the model changes
+  embeddingModel?: string;
+  dimensions?: number;
+  // kept on purpose by the user: never archived, deleted or merged by maintenance
+  pinned?: boolean;
+}
+
+export type MemoryKind = 'fact' | 'event' | 'feeling' | 'smalltalk';
+
+// whether a record takes part in search, as opposed to being merged away or archived
+export function isSearchable(record: MemoryRecord): boolean {
+  return record.consolidatedInto === undefined && record.archivedAt === undefined;
+}
+
+// memories written before the model was recorded came from the OpenAI embeddings API
+export const LEGACY_EMBEDDING_MODEL = import.meta.env.VITE_OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small';
+
+export function embeddingModelOf(record: MemoryRecord): string {
+  return record.embeddingModel ?? LEGACY_EMBEDDING_MODEL;
+}
+
+export function embeddingDimensionsOf(record: MemoryRecord): number {
+  return record.dimensions ?? record.embedding.length;
+}
+
+// the persisted graph remembers which model's vectors it holds
+export interface AnnIndexState extends HNSWState {
+  embeddingModel?: string;
 }
 
 let dbPromise: Promise<IDBDatabase> | null = null;
 
 // initializes db
-function openDB(): Promise<IDBDatabase> {
+export function openDB(): Promise<IDBDatabase> {
   if (dbPromise) {
     return dbPromise;
   }
@@ -23,17 +80,49 @@ function openDB(): Promise<IDBDatabase> {
 
     request.onupgradeneeded = (event) => {
       const db = (event.target as IDBOpenDBRequest).result;
+      const upgrade = (event.target as IDBOpenDBRequest).transaction;
       if (!db.objectStoreNames.contains(STORE_NAME)) {
         const store = db.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
         // maybe: Index for potentially filtering/sorting by timestamp later
         store.createIndex('timestamp', 'timestamp', { unique: false });
         //console.log(`Object store '${STORE_NAME}' created.`);
       }
+      if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+        const sessions = db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+        sessions.createIndex('updatedAt', 'updatedAt', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(TURNS_STORE)) {
+        const turns = db.createObjectStore(TURNS_STORE, { keyPath: 'id', autoIncrement: true });
+        turns.createIndex('sessionId', 'sessionId', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(ANN_NODES_STORE)) {
+        db.createObjectStore(ANN_NODES_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE, { keyPath: 'key' });
+      }
+      if (!db.objectStoreNames.contains(PROFILE_STORE)) {
+        const profile = db.createObjectStore(PROFILE_STORE, { keyPath: 'key' });
+        profile.createIndex('kind', 'kind', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(EMBEDDING_CACHE_STORE)) {
+        const cache = db.createObjectStore(EMBEDDING_CACHE_STORE, { keyPath: 'key' });
+        cache.createIndex('usedAt', 'usedAt', { unique: false });
+      }
+      if (event.oldVersion > 0 && event.oldVersion < 4 && upgrade) {
+        migrateEmbeddings(upgrade.objectStore(STORE_NAME));
+      }
     };
 
     request.onsuccess = (event) => {
       //console.log(`Database '${DB_NAME}' opened successfully.`);
-      resolve((event.target as IDBOpenDBRequest).result);
+      const db = (event.target as IDBOpenDBRequest).result;
+      // let a newer version open in another tab instead of blocking its upgrade
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
     };
 
     request.onerror = () => {
@@ -46,6 +135,36 @@ function openDB(): Promise<IDBDatabase> {
   return dbPromise;
 }
 
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+// rewrites number[] embeddings in the packed format; runs inside the upgrade transaction,
+// so the database only opens once every record is converted
+function migrateEmbeddings(store: IDBObjectStore) {
+  const cursorRequest = store.openCursor();
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    const record = cursor.value as Omit<MemoryRecord, 'embedding'> & { embedding: unknown };
+    if (Array.isArray(record.embedding)) {
+      cursor.update({ ...record, ...packEmbedding(record.embedding) });
+    }
+    cursor.continue();
+  };
+}
+
 // helper to get a transaction and the object store
 async function getStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
   const db = await openDB();
@@ -55,9 +174,10 @@ async function getStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
 
 // adds a memory record to the db
 export async function addRecord(record: Omit<MemoryRecord, 'id'>): Promise<number> {
+  const [stored] = await toStored([record]);
   return new Promise(async (resolve, reject) => {
     const store = await getStore('readwrite');
-    const request = store.add(record);
+    const request = store.add(stored);
 
     request.onsuccess = () => {
       resolve(request.result as number);
@@ -72,12 +192,12 @@ export async function addRecord(record: Omit<MemoryRecord, 'id'>): Promise<numbe
 
 // memory retrieval 
 export async function getRecord(id: number): Promise<MemoryRecord | undefined> {
-  return new Promise(async (resolve, reject) => {
+  const stored = await new Promise<StoredMemoryRecord | undefined>(async (resolve, reject) => {
     const store = await getStore('readonly');
     const request = store.get(id);
 
     request.onsuccess = () => {
-      resolve(request.result as MemoryRecord | undefined);
+      resolve(request.result as StoredMemoryRecord | undefined);
     };
 
     request.onerror = () => {
@@ -85,16 +205,17 @@ export async function getRecord(id: number): Promise<MemoryRecord | undefined> {
       reject(`Error getting record: ${request.error}`);
     };
   });
+  return stored && (await fromStored([stored]))[0];
 }
 
 
 export async function getAllRecords(): Promise<MemoryRecord[]> {
-  return new Promise(async (resolve, reject) => {
+  const stored = await new Promise<StoredMemoryRecord[]>(async (resolve, reject) => {
     const store = await getStore('readonly');
     const request = store.getAll();
 
     request.onsuccess = () => {
-      resolve(request.result as MemoryRecord[]);
+      resolve(request.result as StoredMemoryRecord[]);
     };
 
     request.onerror = () => {
@@ -102,6 +223,80 @@ export async function getAllRecords(): Promise<MemoryRecord[]> {
       reject(`Error getting all records: ${request.error}`);
     };
   });
+  return fromStored(stored);
+}
+
+// fetches several records in one transaction; missing ids are skipped
+export async function getRecords(ids: number[]): Promise<MemoryRecord[]> {
+  const store = await getStore('readonly');
+  const records = await Promise.all(ids.map(id => new Promise<StoredMemoryRecord | undefined>((resolve, reject) => {
+    const request = store.get(id);
+    request.onsuccess = () => resolve(request.result as StoredMemoryRecord | undefined);
+    request.onerror = () => reject(request.error);
+  })));
+  return fromStored(records.filter((record): record is StoredMemoryRecord => record !== undefined));
+}
+
+// adds several records in one transaction, returning their ids in order
+export async function addRecords(records: Omit<MemoryRecord, 'id'>[]): Promise<number[]> {
+  const stored = await toStored(records);
+  const db = await openDB();
+  const transaction = db.transaction(STORE_NAME, 'readwrite');
+  const store = transaction.objectStore(STORE_NAME);
+  const requests = stored.map(record => store.add(record));
+  await transactionDone(transaction);
+  return requests.map(request => request.result as number);
+}
+
+// adds the merged memory and archives its originals in one transaction, so a crash can't
+// leave both versions searchable
+export async function addConsolidatedRecord(record: Omit<MemoryRecord, 'id'>, originalIds: number[]): Promise<number> {
+  const [stored] = await toStored([record]);
+  const db = await openDB();
+  const transaction = db.transaction(STORE_NAME, 'readwrite');
+  const store = transaction.objectStore(STORE_NAME);
+  const id = await requestToPromise(store.add(stored)) as number;
+  for (const originalId of originalIds) {
+    // consolidatedInto is kept in the clear on sealed records, so this works on either kind
+    const original = await requestToPromise(store.get(originalId)) as StoredMemoryRecord | undefined;
+    if (original) {
+      store.put({ ...original, consolidatedInto: id });
+    }
+  }
+  await transactionDone(transaction);
+  return id;
+}
+
+// rewrites the given records in one transaction; `update` returns the new record, or
+// undefined to leave one alone
+export async function updateRecords(ids: number[], update: (record: MemoryRecord) => MemoryRecord | undefined): Promise<MemoryRecord[]> {
+  const key = await writeKey();
+  if (key) {
+    // decrypting can't happen inside a transaction (it would commit while we wait), so
+    // sealed records are read, updated and sealed first, then written in one go
+    const updated = (await getRecords(ids)).map(update).filter((record): record is MemoryRecord => record !== undefined);
+    const stored = await Promise.all(updated.map(record => sealMemory(record, key)));
+    const db = await openDB();
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    stored.forEach(record => transaction.objectStore(STORE_NAME).put(record));
+    await transactionDone(transaction);
+    return updated;
+  }
+
+  const db = await openDB();
+  const transaction = db.transaction(STORE_NAME, 'readwrite');
+  const store = transaction.objectStore(STORE_NAME);
+  const updated: MemoryRecord[] = [];
+  for (const id of ids) {
+    const record = await requestToPromise(store.get(id)) as MemoryRecord | undefined;
+    const next = record && update(record);
+    if (next) {
+      store.put(next);
+      updated.push(next);
+    }
+  }
+  await transactionDone(transaction);
+  return updated;
 }
 
 // delete a memory record from the db
@@ -128,19 +323,280 @@ export async function deleteRecord(id: number): Promise<void> {
   });
 }
 
+// deletes several memory records in one transaction
+export async function deleteRecords(ids: number[]): Promise<void> {
+  const db = await openDB();
+  const transaction = db.transaction(STORE_NAME, 'readwrite');
+  const store = transaction.objectStore(STORE_NAME);
+  ids.forEach(id => store.delete(id));
+  await transactionDone(transaction);
+}
+
 // clears all records from the db
 export async function clearAllRecords(): Promise<void> {
-    return new Promise(async (resolve, reject) => {
-      const store = await getStore('readwrite');
-      const request = store.clear();
+    const db = await openDB();
+    // the ANN graph only describes the memories, so it goes with them, and cached
+    // embeddings are as revealing as the texts they were made from
+    const transaction = db.transaction([STORE_NAME, ANN_NODES_STORE, META_STORE, EMBEDDING_CACHE_STORE], 'readwrite');
+    transaction.objectStore(STORE_NAME).clear();
+    transaction.objectStore(EMBEDDING_CACHE_STORE).clear();
+    transaction.objectStore(ANN_NODES_STORE).clear();
+    transaction.objectStore(META_STORE).delete(ANN_STATE_KEY);
 
-      request.onsuccess = () => {
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => {
           resolve();
       };
 
-      request.onerror = () => {
-          console.error('Error clearing store:', request.error);
-          reject(`Error clearing store: ${request.error}`);
+      transaction.onerror = () => {
+          console.error('Error clearing store:', transaction.error);
+          reject(`Error clearing store: ${transaction.error}`);
       };
     });
-} 
\ No newline at end of file
+}
+
+// --- ANN index persistence ---
+
+export async function loadAnnIndex(): Promise<{ state: AnnIndexState | undefined; nodes: HNSWNode[] }> {
+  const db = await openDB();
+  const transaction = db.transaction([ANN_NODES_STORE, META_STORE], 'readonly');
+  const stateRequest = transaction.objectStore(META_STORE).get(ANN_STATE_KEY);
+  const nodesRequest = transaction.objectStore(ANN_NODES_STORE).getAll();
+
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => {
+      resolve({
+        state: stateRequest.result?.value as AnnIndexState | undefined,
+        nodes: nodesRequest.result as HNSWNode[],
+      });
+    };
+    transaction.onerror = () => {
+      console.error('Error loading ANN index:', transaction.error);
+      reject(`Error loading ANN index: ${transaction.error}`);
+    };
+  });
+}
+
+// writes only the nodes touched since the last save
+export async function saveAnnChanges(state: AnnIndexState, changed: HNSWNode[], removed: number[]): Promise<void> {
+  const db = await openDB();
+  const transaction = db.transaction([ANN_NODES_STORE, META_STORE], 'readwrite');
+  const nodes = transaction.objectStore(ANN_NODES_STORE);
+  for (const node of changed) {
+    nodes.put(node);
+  }
+  for (const id of removed) {
+    nodes.delete(id);
+  }
+  transaction.objectStore(META_STORE).put({ key: ANN_STATE_KEY, value: state });
+
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => {
+      console.error('Error saving ANN index:', transaction.error);
+      reject(`Error saving ANN index: ${transaction.error}`);
+    };
+  });
+}
+
+// drops the persisted graph, e.g. before a full rebuild
+export async function clearAnnIndex(): Promise<void> {
+  const db = await openDB();
+  const transaction = db.transaction([ANN_NODES_STORE, META_STORE], 'readwrite');
+  transaction.objectStore(ANN_NODES_STORE).clear();
+  transaction.objectStore(META_STORE).delete(ANN_STATE_KEY);
+
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(`Error clearing ANN index: ${transaction.error}`);
+  });
+} 
+
+// --- Encryption at rest ---
+// Off by default. Once a passphrase is set, every memory record is stored sealed (see
+// encryption.ts) and the store can only be read or written while unlocked. The key lives
+// only in memory, on the main thread, the one context that touches the store.
+
+const ENCRYPTION_KEY = 'encryption';
+
+interface EncryptionSettings {
+  salt: Uint8Array;
+  iterations: number;
+  verifier: SealedData;
+}
+
+export type MemoryLockState = 'off' | 'locked' | 'unlocked';
+
+// a record as it sits in the store, in the clear or sealed
+type StoredMemoryRecord = MemoryRecord | SealedMemoryRecord;
+
+// the stores sealed along with the memories: what was said, and what was learned from it
+const SEALED_STORES = [SESSIONS_STORE, TURNS_STORE, PROFILE_STORE];
+
+let encryptionSettings: Promise<EncryptionSettings | undefined> | null = null;
+let memoryKey: CryptoKey | null = null;
+
+function loadEncryptionSettings(): Promise<EncryptionSettings | undefined> {
+  encryptionSettings ??= openDB()
+    .then(db => requestToPromise(db.transaction(META_STORE, 'readonly').objectStore(META_STORE).get(ENCRYPTION_KEY)))
+    .then(entry => entry?.value as EncryptionSettings | undefined)
+    .catch(error => {
+      encryptionSettings = null;
+      throw error;
+    });
+  return encryptionSettings;
+}
+
+function lockedError(): Error {
+  return new Error('Memory is locked; unlock it with the passphrase first.');
+}
+
+// the key new records are sealed with, or undefined while encryption is off
+async function writeKey(): Promise<CryptoKey | undefined> {
+  if (!(await loadEncryptionSettings())) return undefined;
+  if (!memoryKey) throw lockedError();
+  return memoryKey;
+}
+
+async function toStored<T extends Omit<MemoryRecord, 'id'> & { id?: number }>(records: T[]): Promise<(T | Omit<SealedMemoryRecord, 'id'>)[]> {
+  const key = await writeKey();
+  return key ? Promise.all(records.map(record => sealMemory(record, key))) : records;
+}
+
+async function fromStored(records: StoredMemoryRecord[]): Promise<MemoryRecord[]> {
+  if (!records.some(isSealed)) return records as MemoryRecord[];
+  const key = memoryKey;
+  if (!key) throw lockedError();
+  const opened = await Promise.all(records.map(async record => {
+    if (!isSealed(record)) return record;
+    try {
+      return await openMemory(record, key);
+    } catch (error) {
+      // left as it is in the store; one damaged record shouldn't hide all the others
+      console.error(`Could not decrypt memory ${record.id}:`, error);
+      return undefined;
+    }
+  }));
+  return opened.filter((record): record is MemoryRecord => record !== undefined);
+}
+
+// the fields a store is keyed and indexed on, which it has to be able to read
+function clearFields(db: IDBDatabase, storeName: string): string[] {
+  const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+  const keyPaths = [store.keyPath, ...Array.from(store.indexNames, name => store.index(name).keyPath)];
+  return keyPaths.flat().filter((keyPath): keyPath is string => typeof keyPath === 'string');
+}
+
+/**
+ * Seals sessions, turns or profile facts on their way into `storeName` while encryption is on.
+ * @throws while the store is locked
+ */
+export async function sealForStore<T extends object>(storeName: string, records: T[]): Promise<(T | SealedRecord)[]> {
+  const key = await writeKey();
+  if (!key) return records;
+  const fields = clearFields(await openDB(), storeName);
+  return Promise.all(records.map(record => sealRecord(record, fields, key)));
+}
+
+// the counterpart of sealForStore for records read back; any that won't decrypt are skipped
+export async function openFromStore<T extends object>(records: (T | SealedRecord)[]): Promise<T[]> {
+  const isSealedRecord = (record: T | SealedRecord): record is SealedRecord => 'sealed' in record;
+  if (!records.some(isSealedRecord)) return records as T[];
+  const key = memoryKey;
+  if (!key) throw lockedError();
+  const opened = await Promise.all(records.map(async record => {
+    if (!isSealedRecord(record)) return record;
+    try {
+      return await openRecord<T>(record, key);
+    } catch (error) {
+      console.error('Could not decrypt a stored record:', error);
+      return undefined;
+    }
+  }));
+  return opened.filter(record => record !== undefined) as T[];
+}
+
+export async function getMemoryLockState(): Promise<MemoryLockState> {
+  if (!(await loadEncryptionSettings())) return 'off';
+  return memoryKey ? 'unlocked' : 'locked';
+}
+
+/**
+ * Checks the passphrase against the stored verifier before keeping the key, so a wrong one
+ * is turned away without a single record being read or written.
+ * @returns false if the passphrase is wrong
+ */
+export async function unlockMemory(passphrase: string): Promise<boolean> {
+  const settings = await loadEncryptionSettings();
+  if (!settings) return true;
+  const key = await deriveKey(passphrase, settings.salt, settings.iterations);
+  if (!(await verifyKey(settings.verifier, key))) return false;
+  memoryKey = key;
+  return true;
+}
+
+export function lockMemory(): void {
+  memoryKey = null;
+}
+
+/**
+ * Seals every memory, session, turn and profile fact with a key derived from the passphrase
+ * and leaves the store unlocked. Cached embeddings are dropped, since they'd give away the
+ * texts they were made from.
+ */
+export async function enableMemoryEncryption(passphrase: string): Promise<void> {
+  if (await loadEncryptionSettings()) {
+    throw new Error('Memory encryption is already on.');
+  }
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const key = await deriveKey(passphrase, salt);
+  const settings: EncryptionSettings = { salt, iterations: PBKDF2_ITERATIONS, verifier: await createVerifier(key) };
+
+  const sealed = await Promise.all((await getAllRecords()).map(record => sealMemory(record, key)));
+  const db = await openDB();
+  const sealedStores = await Promise.all(SEALED_STORES.map(async storeName => {
+    const fields = clearFields(db, storeName);
+    const records = await requestToPromise(db.transaction(storeName, 'readonly').objectStore(storeName).getAll());
+    return [storeName, await Promise.all(records.map(record => sealRecord(record, fields, key)))] as const;
+  }));
+  const transaction = db.transaction([STORE_NAME, ...SEALED_STORES, META_STORE, EMBEDDING_CACHE_STORE], 'readwrite');
+  sealed.forEach(record => transaction.objectStore(STORE_NAME).put(record));
+  for (const [storeName, records] of sealedStores) {
+    records.forEach(record => transaction.objectStore(storeName).put(record));
+  }
+  transaction.objectStore(META_STORE).put({ key: ENCRYPTION_KEY, value: settings });
+  transaction.objectStore(EMBEDDING_CACHE_STORE).clear();
+  await transactionDone(transaction);
+
+  encryptionSettings = Promise.resolve(settings);
+  memoryKey = key;
+}
+
+// decrypts every memory, session, turn and profile fact back into the clear; only possible while unlocked
+export async function disableMemoryEncryption(): Promise<void> {
+  if (!(await loadEncryptionSettings())) return;
+  if (!memoryKey) throw lockedError();
+
+  const records = await getAllRecords();
+  const db = await openDB();
+  // a record that didn't decrypt would be unreadable for good once the key is gone
+  const stored = await requestToPromise(db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).count());
+  const openedStores = await Promise.all(SEALED_STORES.map(async storeName => {
+    const sealed = await requestToPromise(db.transaction(storeName, 'readonly').objectStore(storeName).getAll());
+    const opened = await openFromStore<object>(sealed);
+    return [storeName, opened, opened.length === sealed.length] as const;
+  }));
+  if (stored !== records.length || openedStores.some(([, , complete]) => !complete)) {
+    throw new Error('Some records could not be decrypted, so encryption was left on.');
+  }
+  const transaction = db.transaction([STORE_NAME, ...SEALED_STORES, META_STORE], 'readwrite');
+  records.forEach(record => transaction.objectStore(STORE_NAME).put(record));
+  for (const [storeName, opened] of openedStores) {
+    opened.forEach(record => transaction.objectStore(storeName).put(record));
+  }
+  transaction.objectStore(META_STORE).delete(ENCRYPTION_KEY);
+  await transactionDone(transaction);
+
+  encryptionSettings = Promise.resolve(undefined);
+  memoryKey = null;
+}
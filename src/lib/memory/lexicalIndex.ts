@@ -0,0 +1,42 @@
+import { BM25Index, type BM25SearchResult } from './bm25';
+import { getAllRecords, isSearchable } from './indexeddb';
+
+// the keyword index is cheap to rebuild from the memory texts, so unlike the HNSW graph it
+// lives in memory only
+let indexPromise: Promise<BM25Index> | null = null;
+
+async function loadIndex(): Promise<BM25Index> {
+  const index = new BM25Index();
+  for (const record of await getAllRecords()) {
+    if (isSearchable(record)) {
+      index.add(record.id, record.text);
+    }
+  }
+  return index;
+}
+
+export function getLexicalIndex(): Promise<BM25Index> {
+  if (!indexPromise) {
+    indexPromise = loadIndex().catch(error => {
+      indexPromise = null;
+      throw error;
+    });
+  }
+  return indexPromise;
+}
+
+export async function indexMemoryText(id: number, text: string): Promise<void> {
+  (await getLexicalIndex()).add(id, text);
+}
+
+export async function unindexMemoryText(id: number): Promise<void> {
+  (await getLexicalIndex()).remove(id);
+}
+
+export async function searchLexicalIndex(query: string, k: number): Promise<BM25SearchResult[]> {
+  return (await getLexicalIndex()).search(query, k);
+}
+
+export function resetLexicalIndex() {
+  indexPromise = null;
+}
@@ -1,49 +1,57 @@
 import { OpenAIService } from '../openai';
+import { EmbeddingService } from './embeddingService';
 
-let openaiService: OpenAIService | null = null;
+let embeddingService: EmbeddingService | null = null;
 
-async function getOpenAIService(): Promise<OpenAIService> {
-  if (!openaiService) {
-    openaiService = new OpenAIService();
+function getEmbeddingService(): EmbeddingService {
+  if (!embeddingService) {
+    const openaiService = new OpenAIService();
+    const provider = openaiService.getEmbeddingProvider(); // surfaces config errors early
+    embeddingService = new EmbeddingService({
+      model: provider.model,
+      embedBatch: texts => openaiService.embedBatch(texts),
+    });
   }
-  return openaiService;
+  return embeddingService;
 }
 
-export async function generateEmbedding(text: string): Promise<number[]> {
-  try {
-    await getOpenAIService(); // Initialize service
-    
-    const response = await fetch('https://api.openai.com/v1/embeddings', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${import.meta.env.VITE_OPENAI_API_KEY}`,
-      },
-      body: JSON.stringify({
-        input: text,
-        model: 'text-embedding-3-small',
-      }),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(errorData.error?.message || `HTTP ${response.status}: ${response.statusText}`);
-    }
+// the configured model; memories embedded with any other one are left out of vector search
+export function getEmbeddingModel(): string {
+  return getEmbeddingService().model;
+}
 
-    const result = await response.json();
-    return result.data[0].embedding;
+// cached per model and text, so embedding the same words again (the query, then the memory) is free
+export async function generateEmbedding(text: string): Promise<Float32Array> {
+  try {
+    const service = getEmbeddingService();
+    return await service.embed(text);
   } catch (error) {
     console.error("Error generating embedding:", error);
     throw error;
   }
 }
 
+// one request for all of the texts that aren't cached yet
+export async function generateEmbeddings(texts: string[]): Promise<Float32Array[]> {
+  try {
+    const service = getEmbeddingService();
+    return await service.embedMany(texts);
+  } catch (error) {
+    console.error("Error generating embeddings:", error);
+    throw error;
+  }
+}
+
+export function resetEmbeddingCache() {
+  embeddingService?.clearMemoryCache();
+}
+
 export async function preloadEmbeddingModel() {
   try {
-    await getOpenAIService();
-    console.log("OpenAI embedding service initialized successfully.");
+    getEmbeddingService();
+    console.log("Embedding service initialized successfully.");
   } catch (error) {
-    console.error("Failed to initialize OpenAI embedding service:", error);
+    console.error("Failed to initialize embedding service:", error);
     throw error;
   }
-} 
\ No newline at end of file
+}
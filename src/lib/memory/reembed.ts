@@ -0,0 +1,94 @@
+// When the configured embedding model changes, the stored vectors no longer match the
+// queries. Until they're re-embedded, search leaves them out of the vector ranking (they
+// still match by keyword); this job re-embeds them in batches. Each batch is saved as it
+// completes and a record's model says whether it's done, so an interrupted job simply
+// picks up where it left off the next time it runs.
+
+import { embeddingDimensionsOf, embeddingModelOf, getAllRecords, isSearchable, updateRecords, type MemoryRecord } from './indexeddb';
+import { indexMemory } from './annIndex';
+import { generateEmbeddings, getEmbeddingModel } from './openai-embedding';
+import { packEmbedding, unpackEmbedding } from './similarity';
+
+export interface ReembedProgress {
+  model: string;
+  total: number; // every memory in the store
+  done: number; // memories already embedded with the model
+  failed: number; // memories skipped in this run: their batch failed, or they changed meanwhile
+}
+
+export interface ReembedOptions {
+  batchSize?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: ReembedProgress) => void;
+}
+
+let running: Promise<ReembedProgress> | null = null;
+
+// Records from another model, or from this one at other dimensions (a server can change
+// what it serves under the same name). The newest current-model record sets the dimensions.
+export async function findStaleMemories(model: string = getEmbeddingModel()): Promise<{ total: number; stale: MemoryRecord[] }> {
+  const records = await getAllRecords();
+  const current = records.filter(record => embeddingModelOf(record) === model);
+  const newest = current.reduce<MemoryRecord | undefined>((latest, record) => (!latest || record.id > latest.id ? record : latest), undefined);
+  const dimensions = newest && embeddingDimensionsOf(newest);
+
+  const stale = records.filter(record => embeddingModelOf(record) !== model
+    || (dimensions !== undefined && embeddingDimensionsOf(record) !== dimensions));
+  return { total: records.length, stale };
+}
+
+async function run({ batchSize = 32, signal, onProgress }: ReembedOptions): Promise<ReembedProgress> {
+  const model = getEmbeddingModel();
+  const { total, stale } = await findStaleMemories(model);
+  const progress: ReembedProgress = { model, total, done: total - stale.length, failed: 0 };
+  onProgress?.({ ...progress });
+
+  for (let start = 0; start < stale.length; start += batchSize) {
+    if (signal?.aborted) break;
+    const batch = stale.slice(start, start + batchSize);
+
+    let embeddings: Float32Array[];
+    try {
+      embeddings = await generateEmbeddings(batch.map(record => record.text));
+    } catch (error) {
+      console.error('Failed to re-embed a batch of memories:', error);
+      progress.failed += batch.length;
+      onProgress?.({ ...progress });
+      continue;
+    }
+
+    const texts = new Map(batch.map((record, i) => [record.id, { text: record.text, embedding: embeddings[i] }]));
+    const updated = await updateRecords(batch.map(record => record.id), record => {
+      const entry = texts.get(record.id);
+      // edited or merged away since it was read; the next run picks it up again if needed
+      if (!entry || entry.text !== record.text) return undefined;
+      return { ...record, ...packEmbedding(entry.embedding), embeddingModel: model, dimensions: entry.embedding.length };
+    });
+
+    try {
+      await Promise.all(updated.filter(isSearchable).map(record => indexMemory(record.id, unpackEmbedding(record))));
+    } catch (error) {
+      // the records are saved; the index picks them up when it next loads
+      console.error('Failed to index re-embedded memories:', error);
+    }
+
+    progress.done += updated.length;
+    progress.failed += batch.length - updated.length;
+    onProgress?.({ ...progress });
+  }
+
+  return progress;
+}
+
+/**
+ * Re-embeds every memory that doesn't match the configured model. Calls made while a run
+ * is going share it (and only the first caller's options apply).
+ */
+export function reembedMemories(options: ReembedOptions = {}): Promise<ReembedProgress> {
+  if (!running) {
+    running = run(options).finally(() => {
+      running = null;
+    });
+  }
+  return running;
+}
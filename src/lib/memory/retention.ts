@@ -0,0 +1,134 @@
+// Forgetting policy: how fast each kind of memory fades from ranking, how much using a memory
+// reinforces it, and when memories leave the store (a capacity cap, plus a TTL for trivial ones).
+
+import { deleteRecord, getAllRecords, isSearchable, updateRecords, type MemoryKind, type MemoryRecord } from './indexeddb';
+import { unindexMemory } from './annIndex';
+import { unindexMemoryText } from './lexicalIndex';
+import { scoreMemory } from './importance';
+
+export interface RetentionPolicy {
+  maxMemories: number; // searchable memories kept; the least valuable beyond this go first
+  lowImportanceThreshold: number;
+  lowImportanceTTLDays: number; // memories below the threshold go once unused for this long
+  halfLifeDays: Record<MemoryKind, number>; // ranking recency halves over this time
+  action: 'archive' | 'delete'; // archived memories stay in the store but leave search
+}
+
+export interface RetentionResult {
+  archived: number;
+  deleted: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// each use closes this share of the gap between a memory's importance and 1
+const REINFORCEMENT = 0.1;
+
+const DEFAULT_HALF_LIFE_DAYS: Record<MemoryKind, number> = {
+  fact: 180,
+  event: 14,
+  feeling: 7,
+  smalltalk: 1,
+};
+
+function readNumber(value: string | undefined, fallback: number): number {
+  const parsed = parseFloat(value ?? '');
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+// "fact:180,event:14" -> overrides for those kinds
+function readHalfLives(value: string | undefined): Record<MemoryKind, number> {
+  const halfLives = { ...DEFAULT_HALF_LIFE_DAYS };
+  for (const entry of (value ?? '').split(',')) {
+    const [kind, days] = entry.split(':').map(part => part.trim());
+    if (kind in halfLives) {
+      halfLives[kind as MemoryKind] = readNumber(days, halfLives[kind as MemoryKind]);
+    }
+  }
+  return halfLives;
+}
+
+export function getRetentionPolicy(): RetentionPolicy {
+  const env = import.meta.env;
+  return {
+    maxMemories: readNumber(env.VITE_MEMORY_MAX_COUNT, 5000),
+    lowImportanceThreshold: readNumber(env.VITE_MEMORY_LOW_IMPORTANCE, 0.3),
+    lowImportanceTTLDays: readNumber(env.VITE_MEMORY_LOW_IMPORTANCE_TTL_DAYS, 30),
+    halfLifeDays: readHalfLives(env.VITE_MEMORY_HALF_LIFE_DAYS),
+    action: env.VITE_MEMORY_RETENTION === 'delete' ? 'delete' : 'archive',
+  };
+}
+
+// kind and importance, scoring memories stored before they were recorded
+export function memoryScore(record: MemoryRecord): { kind: MemoryKind; importance: number } {
+  if (record.kind && record.importance !== undefined) {
+    return { kind: record.kind, importance: record.importance };
+  }
+  const scored = scoreMemory(record.text);
+  return { kind: record.kind ?? scored.kind, importance: record.importance ?? scored.importance };
+}
+
+// exponential decay since the memory was last written or used, at its kind's half-life
+export function memoryRecency(record: MemoryRecord, now: number, policy: RetentionPolicy = getRetentionPolicy()): number {
+  const lastUsed = Math.max(record.timestamp, record.lastAccessedAt ?? 0);
+  const halfLifeMs = policy.halfLifeDays[memoryScore(record).kind] * DAY_MS;
+  return Math.exp(-Math.LN2 * Math.max(now - lastUsed, 0) / halfLifeMs);
+}
+
+// what a memory is worth keeping; important memories hold some value however old they get
+function retentionValue(record: MemoryRecord, now: number, policy: RetentionPolicy): number {
+  return memoryScore(record).importance * (0.25 + 0.75 * memoryRecency(record, now, policy));
+}
+
+// called for memories that made it into a prompt or a tool result
+export async function reinforceMemories(ids: number[]): Promise<void> {
+  if (ids.length === 0) return;
+  const now = Date.now();
+  await updateRecords(ids, record => {
+    const { kind, importance } = memoryScore(record);
+    return {
+      ...record,
+      kind,
+      importance: importance + (1 - importance) * REINFORCEMENT,
+      accessCount: (record.accessCount ?? 0) + 1,
+      lastAccessedAt: now,
+    };
+  });
+}
+
+/**
+ * Archives or deletes memories that fell under the policy: low-importance ones unused for
+ * longer than the TTL, then the least valuable ones beyond the capacity cap.
+ */
+export async function applyRetentionPolicy(policy: RetentionPolicy = getRetentionPolicy()): Promise<RetentionResult> {
+  const now = Date.now();
+  // pinned memories are outside the policy, and don't count against the cap either
+  const records = (await getAllRecords()).filter(record => isSearchable(record) && !record.pinned);
+
+  const expired = new Set(records
+    .filter(record => {
+      const lastUsed = Math.max(record.timestamp, record.lastAccessedAt ?? 0);
+      return memoryScore(record).importance < policy.lowImportanceThreshold
+        && now - lastUsed > policy.lowImportanceTTLDays * DAY_MS;
+    })
+    .map(record => record.id));
+
+  const overflow = records
+    .filter(record => !expired.has(record.id))
+    .sort((a, b) => retentionValue(b, now, policy) - retentionValue(a, now, policy))
+    .slice(policy.maxMemories)
+    .map(record => record.id);
+
+  const ids = [...expired, ...overflow];
+  if (ids.length === 0) return { archived: 0, deleted: 0 };
+
+  if (policy.action === 'delete') {
+    for (const id of ids) {
+      await deleteRecord(id);
+    }
+  } else {
+    await updateRecords(ids, record => ({ ...record, archivedAt: now }));
+  }
+  await Promise.all(ids.flatMap(id => [unindexMemory(id), unindexMemoryText(id)]));
+
+  return policy.action === 'delete' ? { archived: 0, deleted: ids.length } : { archived: ids.length, deleted: 0 };
+}
@@ -1,5 +1,18 @@
+// how embeddings are kept in the memories store: pre-normalized floats, or int8 with a
+// per-vector scale (a quarter of the size, at a small cost in precision)
+export type EmbeddingEncoding = 'float32' | 'int8';
+
+export interface PackedEmbedding {
+  embedding: Float32Array | Int8Array;
+  embeddingScale?: number; // int8 only: multiply a component by this to get the float back
+}
+
+export function getEmbeddingEncoding(): EmbeddingEncoding {
+  return import.meta.env.VITE_EMBEDDING_QUANTIZATION === 'int8' ? 'int8' : 'float32';
+}
+
 // dot product of two vectors
-function dotProduct(vecA: number[], vecB: number[]): number {
+export function dotProduct(vecA: ArrayLike<number>, vecB: ArrayLike<number>): number {
   if (vecA.length !== vecB.length) {
     throw new Error("Vectors must have the same length for dot product.");
   }
@@ -11,7 +24,7 @@ function dotProduct(vecA: number[], vecB: number[]): number {
 }
 
 // magnitude of a vector
-function magnitude(vec: number[]): number {
+function magnitude(vec: ArrayLike<number>): number {
   let sumOfSquares = 0;
   for (let i = 0; i < vec.length; i++) {
     sumOfSquares += vec[i] * vec[i];
@@ -19,8 +32,55 @@ function magnitude(vec: number[]): number {
   return Math.sqrt(sumOfSquares);
 }
 
+// scales a vector to unit length, so cosine similarity becomes a plain dot product
+export function normalizeEmbedding(vec: ArrayLike<number>): Float32Array {
+  const normalized = Float32Array.from(vec);
+  const mag = magnitude(normalized);
+  if (mag > 0) {
+    for (let i = 0; i < normalized.length; i++) {
+      normalized[i] /= mag;
+    }
+  }
+  return normalized;
+}
+
+// normalizes, then quantizes if asked: each component becomes round(x / scale) with
+// scale = max|x| / 127, so the largest one maps to ±127
+export function packEmbedding(vec: ArrayLike<number>, encoding: EmbeddingEncoding = getEmbeddingEncoding()): PackedEmbedding {
+  const normalized = normalizeEmbedding(vec);
+  if (encoding === 'float32') {
+    return { embedding: normalized };
+  }
+
+  let maxAbs = 0;
+  for (let i = 0; i < normalized.length; i++) {
+    maxAbs = Math.max(maxAbs, Math.abs(normalized[i]));
+  }
+  const scale = maxAbs > 0 ? maxAbs / 127 : 1;
+  const quantized = new Int8Array(normalized.length);
+  for (let i = 0; i < normalized.length; i++) {
+    quantized[i] = Math.round(normalized[i] / scale);
+  }
+  return { embedding: quantized, embeddingScale: scale };
+}
+
+export function unpackEmbedding({ embedding, embeddingScale }: PackedEmbedding): Float32Array {
+  if (embedding instanceof Float32Array) {
+    return embedding;
+  }
+  const scale = embeddingScale ?? 1;
+  return Float32Array.from(embedding, value => value * scale);
+}
+
+// similarity between a normalized query and a stored embedding; the scale factors out of
+// the sum, so int8 vectors are compared without unpacking them
+export function embeddingSimilarity(query: Float32Array, packed: PackedEmbedding): number {
+  const dot = dotProduct(query, packed.embedding);
+  return packed.embedding instanceof Int8Array ? dot * (packed.embeddingScale ?? 1) : dot;
+}
+
 // cosine similarity between two vectors
-export function cosineSimilarity(vecA: number[], vecB: number[]): number {
+export function cosineSimilarity(vecA: ArrayLike<number>, vecB: ArrayLike<number>): number {
   if (vecA.length !== vecB.length) {
     throw new Error("Vectors must have the same length for cosine similarity.");
   }
@@ -30,11 +90,11 @@ export function cosineSimilarity(vecA: number[], vecB: number[]): number {
 
   // if zero vectors
   if (magA === 0 || magB === 0) {
-   
+
     return 0;
   }
 
   const dot = dotProduct(vecA, vecB);
 
   return dot / (magA * magB);
-} 
\ No newline at end of file
+}
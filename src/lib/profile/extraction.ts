@@ -0,0 +1,84 @@
+import type { ResponseFormat } from '../providers/types';
+
+// Shared by the chat worker, which runs the extraction, and the main thread, which stores
+// the result; keep it free of IndexedDB and DOM imports.
+
+export type ProfileFactKind = 'name' | 'pronouns' | 'relationship' | 'preference' | 'date';
+
+export const PROFILE_FACT_KINDS: ProfileFactKind[] = ['name', 'pronouns', 'relationship', 'preference', 'date'];
+
+export interface ExtractedProfileFact {
+  kind: ProfileFactKind;
+  subject: string; // who or what the fact is about ("sister", "coffee", "birthday"); empty for name and pronouns
+  value: string;
+  confidence: number; // 0 to 1
+}
+
+export const PROFILE_EXTRACTION_PROMPT = `You maintain a profile of the user from a conversation with Samantha, their AI companion. Extract durable facts the user states about themselves in their latest message:
+- name: what the user wants to be called
+- pronouns: the user's pronouns, only if stated
+- relationship: a person or pet in their life (subject: the relation, e.g. "sister", "dog"; value: the name and anything notable)
+- preference: a lasting like or dislike (subject: the thing; value: how they feel about it)
+- date: an important date (subject: the occasion, e.g. "birthday"; value: the date as they said it)
+
+Only extract what the user says about their own life; ignore hypotheticals, jokes, questions and anything Samantha said. Use the previous message only to understand short answers ("Sam" after "What's your name?"). Set confidence from 0 to 1 for how clearly it was stated. Return an empty list if there is nothing durable.`;
+
+export const PROFILE_RESPONSE_FORMAT: ResponseFormat = {
+  type: 'json_schema',
+  json_schema: {
+    name: 'user_profile_facts',
+    strict: true,
+    schema: {
+      type: 'object',
+      properties: {
+        facts: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              kind: { type: 'string', enum: PROFILE_FACT_KINDS },
+              subject: { type: 'string' },
+              value: { type: 'string' },
+              confidence: { type: 'number' },
+            },
+            required: ['kind', 'subject', 'value', 'confidence'],
+            additionalProperties: false,
+          },
+        },
+      },
+      required: ['facts'],
+      additionalProperties: false,
+    },
+  },
+};
+
+// Validates the model's reply. Providers without structured output may wrap the JSON in
+// prose or a code fence, so the outermost object is cut out first; anything malformed is dropped.
+export function parseProfileFacts(response: string): ExtractedProfileFact[] {
+  const start = response.indexOf('{');
+  const end = response.lastIndexOf('}');
+  if (start === -1 || end < start) return [];
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(response.slice(start, end + 1));
+  } catch {
+    return [];
+  }
+
+  const facts = (parsed as { facts?: unknown }).facts;
+  if (!Array.isArray(facts)) return [];
+
+  return facts.flatMap((fact): ExtractedProfileFact[] => {
+    const { kind, subject, value, confidence } = (fact ?? {}) as Record<string, unknown>;
+    if (!PROFILE_FACT_KINDS.includes(kind as ProfileFactKind) || typeof value !== 'string' || !value.trim()) {
+      return [];
+    }
+    return [{
+      kind: kind as ProfileFactKind,
+      subject: kind === 'name' || kind === 'pronouns' || typeof subject !== 'string' ? '' : subject.trim(),
+      value: value.trim(),
+      confidence: typeof confidence === 'number' ? Math.min(Math.max(confidence, 0), 1) : 0.5,
+    }];
+  });
+}
@@ -0,0 +1,126 @@
+import { openDB, openFromStore, requestToPromise, sealForStore, transactionDone, PROFILE_STORE } from '../memory/indexeddb';
+import type { ExtractedProfileFact, ProfileFactKind } from './extraction';
+
+// where a fact came from, so it can be traced back to the conversation
+export interface ProfileFactSource {
+  sessionId?: string;
+  turnId?: number;
+  text: string;
+}
+
+export interface ProfileFact extends ExtractedProfileFact {
+  // one fact per kind and subject, e.g. "relationship:dog"; the store's key, so it stays
+  // readable when the profile is encrypted
+  key: string;
+  source: ProfileFactSource;
+  updatedAt: number;
+}
+
+// below this an extracted fact only fills a gap; it never replaces what we already know
+const MIN_OVERRIDE_CONFIDENCE = 0.6;
+// facts the model was unsure about stay out of the prompt
+const MIN_PROMPT_CONFIDENCE = 0.5;
+
+const KIND_LABELS: Record<ProfileFactKind, string> = {
+  name: 'Name',
+  pronouns: 'Pronouns',
+  relationship: 'Relationship',
+  preference: 'Preference',
+  date: 'Date',
+};
+
+function factKey({ kind, subject }: Pick<ExtractedProfileFact, 'kind' | 'subject'>): string {
+  return `${kind}:${subject.toLowerCase().replace(/\s+/g, ' ').trim()}`;
+}
+
+export async function getProfile(): Promise<ProfileFact[]> {
+  const db = await openDB();
+  const facts = await openFromStore<ProfileFact>(await requestToPromise(db.transaction(PROFILE_STORE, 'readonly').objectStore(PROFILE_STORE).getAll()));
+  return facts.sort((a, b) => a.kind.localeCompare(b.kind) || a.subject.localeCompare(b.subject));
+}
+
+// the name to greet the user by, if they've told us
+export async function getProfileName(): Promise<string | undefined> {
+  const db = await openDB();
+  const stored = await requestToPromise(db.transaction(PROFILE_STORE, 'readonly').objectStore(PROFILE_STORE).get(factKey({ kind: 'name', subject: '' })));
+  const fact = stored && (await openFromStore<ProfileFact>([stored]))[0];
+  return fact && fact.confidence >= MIN_PROMPT_CONFIDENCE ? fact.value : undefined;
+}
+
+// the stored facts under these keys, by key
+async function getStoredFacts(keys: string[]): Promise<Map<string, ProfileFact>> {
+  const db = await openDB();
+  const store = db.transaction(PROFILE_STORE, 'readonly').objectStore(PROFILE_STORE);
+  const stored = await Promise.all([...new Set(keys)].map(key => requestToPromise(store.get(key))));
+  const facts = await openFromStore<ProfileFact>(stored.filter(fact => fact !== undefined));
+  return new Map(facts.map(fact => [fact.key, fact]));
+}
+
+// Facts are sealed before the write transaction opens (it would commit while waiting on
+// the crypto), so what's already known is read in a transaction of its own.
+async function putFacts(facts: ProfileFact[]): Promise<void> {
+  if (facts.length === 0) return;
+  const stored = await sealForStore(PROFILE_STORE, facts);
+  const db = await openDB();
+  const transaction = db.transaction(PROFILE_STORE, 'readwrite');
+  stored.forEach(fact => transaction.objectStore(PROFILE_STORE).put(fact));
+  await transactionDone(transaction);
+}
+
+// People restate and correct themselves, so a newer fact replaces an older one unless the
+// extractor was unsure about it. Returns the facts that were written.
+export async function saveProfileFacts(facts: ExtractedProfileFact[], source: ProfileFactSource): Promise<ProfileFact[]> {
+  const known = await getStoredFacts(facts.map(factKey));
+  const now = Date.now();
+  const written: ProfileFact[] = [];
+
+  for (const fact of facts) {
+    const key = factKey(fact);
+    const existing = known.get(key);
+    if (existing && fact.confidence < MIN_OVERRIDE_CONFIDENCE && fact.confidence <= existing.confidence) {
+      continue;
+    }
+    const record: ProfileFact = { ...fact, key, source, updatedAt: now };
+    known.set(key, record);
+    written.push(record);
+  }
+
+  await putFacts(written);
+  return written;
+}
+
+export async function deleteProfileFact(key: string): Promise<void> {
+  const db = await openDB();
+  await requestToPromise(db.transaction(PROFILE_STORE, 'readwrite').objectStore(PROFILE_STORE).delete(key));
+}
+
+// restores facts from a backup; where both sides know a fact, the more recent one wins
+export async function importProfileFacts(facts: ProfileFact[]): Promise<number> {
+  const known = await getStoredFacts(facts.map(fact => fact.key));
+  const written: ProfileFact[] = [];
+
+  for (const fact of facts) {
+    const existing = known.get(fact.key);
+    if (existing && existing.updatedAt >= fact.updatedAt) continue;
+    known.set(fact.key, fact);
+    written.push(fact);
+  }
+
+  await putFacts(written);
+  return written.length;
+}
+
+export async function clearProfile(): Promise<void> {
+  const db = await openDB();
+  await requestToPromise(db.transaction(PROFILE_STORE, 'readwrite').objectStore(PROFILE_STORE).clear());
+}
+
+// one line per fact, for the system prompt and the extractor's "already known" list
+export function formatProfile(facts: ProfileFact[]): string {
+  return facts
+    .filter(fact => fact.confidence >= MIN_PROMPT_CONFIDENCE)
+    .map(fact => `${KIND_LABELS[fact.kind]}${fact.subject ? ` (${fact.subject})` : ''}: ${fact.value}`)
+    .join('\n');
+}
+
+export * from './extraction';
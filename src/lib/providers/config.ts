@@ -0,0 +1,119 @@
+import type { Capability, ProviderConfig, ProviderKind, ProviderSettings } from './types';
+
+const STORAGE_KEY = 'os1_providers';
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+const DEFAULT_MODELS: Record<Capability, string> = {
+  chat: import.meta.env.VITE_OPENAI_MODEL || 'gpt-4o-mini',
+  tts: import.meta.env.VITE_OPENAI_TTS_MODEL || 'tts-1',
+  transcription: import.meta.env.VITE_OPENAI_TRANSCRIPTION_MODEL || 'gpt-4o-mini-transcribe',
+  embedding: import.meta.env.VITE_OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small',
+};
+
+// the in-browser provider runs its own models; only the embedding one is configurable
+const TRANSFORMERS_MODELS: Partial<Record<Capability, string>> = {
+  embedding: import.meta.env.VITE_TRANSFORMERS_EMBEDDING_MODEL || 'Xenova/all-MiniLM-L6-v2',
+};
+
+const PROVIDER_ENV: Record<Capability, string | undefined> = {
+  chat: import.meta.env.VITE_CHAT_PROVIDER,
+  tts: import.meta.env.VITE_TTS_PROVIDER,
+  transcription: import.meta.env.VITE_TRANSCRIPTION_PROVIDER,
+  embedding: import.meta.env.VITE_EMBEDDING_PROVIDER,
+};
+
+const PROVIDER_KINDS: ProviderKind[] = ['openai', 'openai-compatible', 'transformers'];
+
+// set inside workers, which have no localStorage and get their config from the main thread
+let activeConfig: ProviderConfig | null = null;
+
+function isProviderKind(value: unknown): value is ProviderKind {
+  return typeof value === 'string' && PROVIDER_KINDS.includes(value as ProviderKind);
+}
+
+function envKind(capability: Capability): ProviderKind {
+  return isProviderKind(PROVIDER_ENV[capability]) ? PROVIDER_ENV[capability] as ProviderKind : 'openai';
+}
+
+function defaultSettings(capability: Capability, kind = envKind(capability)): ProviderSettings {
+  if (kind === 'openai-compatible') {
+    return {
+      kind,
+      baseURL: import.meta.env.VITE_COMPATIBLE_BASE_URL || 'http://localhost:8080/v1',
+      apiKey: import.meta.env.VITE_COMPATIBLE_API_KEY || undefined,
+      model: import.meta.env.VITE_COMPATIBLE_MODEL || DEFAULT_MODELS[capability],
+    };
+  }
+
+  if (kind === 'transformers') {
+    return { kind };
+  }
+
+  return {
+    kind,
+    baseURL: OPENAI_BASE_URL,
+    apiKey: import.meta.env.VITE_OPENAI_API_KEY,
+    model: DEFAULT_MODELS[capability],
+  };
+}
+
+// what was picked at runtime, per capability; fields left out fall back to the env defaults
+export function getProviderOverrides(): Partial<ProviderConfig> {
+  if (typeof localStorage === 'undefined') return {};
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return {};
+    const parsed = JSON.parse(raw) as Partial<ProviderConfig>;
+    const overrides: Partial<ProviderConfig> = {};
+    for (const capability of Object.keys(DEFAULT_MODELS) as Capability[]) {
+      const settings = parsed[capability];
+      if (settings && isProviderKind(settings.kind)) {
+        overrides[capability] = settings;
+      }
+    }
+    return overrides;
+  } catch (error) {
+    console.warn('Ignoring invalid provider overrides in localStorage:', error);
+    return {};
+  }
+}
+
+// env defaults, overridden per capability by whatever was picked at runtime
+export function getProviderConfig(): ProviderConfig {
+  if (activeConfig) return activeConfig;
+
+  const overrides = getProviderOverrides();
+  const settings = (capability: Capability): ProviderSettings => {
+    const override = overrides[capability];
+    return override ? { ...defaultSettings(capability, override.kind), ...override } : defaultSettings(capability);
+  };
+  return {
+    chat: settings('chat'),
+    tts: settings('tts'),
+    transcription: settings('transcription'),
+    embedding: settings('embedding'),
+  };
+}
+
+export function applyProviderConfig(config: ProviderConfig) {
+  activeConfig = config;
+}
+
+// persists a runtime choice (see ProvidersPanel); workers pick it up the next time they are loaded
+export function setProviderSettings(capability: Capability, settings: ProviderSettings | null) {
+  if (typeof localStorage === 'undefined') return;
+  const overrides = getProviderOverrides();
+  if (settings) {
+    overrides[capability] = settings;
+  } else {
+    delete overrides[capability];
+  }
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(overrides));
+}
+
+export function resolveModel(capability: Capability, settings: ProviderSettings): string {
+  if (settings.kind === 'transformers') {
+    return settings.model || TRANSFORMERS_MODELS[capability] || DEFAULT_MODELS[capability];
+  }
+  return settings.model || DEFAULT_MODELS[capability];
+}
@@ -0,0 +1,41 @@
+import { resolveModel } from './config';
+import { OpenAICompatibleProvider } from './openai';
+import { TransformersChatProvider, TransformersEmbeddingProvider, TransformersTranscriptionProvider } from './transformers';
+import type {
+  ChatProvider,
+  EmbeddingProvider,
+  ProviderSettings,
+  SpeechProvider,
+  TranscriptionProvider,
+} from './types';
+
+export function createChatProvider(settings: ProviderSettings): ChatProvider {
+  if (settings.kind === 'transformers') {
+    return new TransformersChatProvider();
+  }
+  return new OpenAICompatibleProvider(settings, resolveModel('chat', settings));
+}
+
+export function createSpeechProvider(settings: ProviderSettings): SpeechProvider {
+  if (settings.kind === 'transformers') {
+    throw new Error('Text-to-speech is not available with the in-browser provider.');
+  }
+  return new OpenAICompatibleProvider(settings, resolveModel('tts', settings));
+}
+
+export function createTranscriptionProvider(settings: ProviderSettings): TranscriptionProvider {
+  if (settings.kind === 'transformers') {
+    return new TransformersTranscriptionProvider();
+  }
+  return new OpenAICompatibleProvider(settings, resolveModel('transcription', settings));
+}
+
+export function createEmbeddingProvider(settings: ProviderSettings): EmbeddingProvider {
+  if (settings.kind === 'transformers') {
+    return new TransformersEmbeddingProvider(resolveModel('embedding', settings));
+  }
+  return new OpenAICompatibleProvider(settings, resolveModel('embedding', settings));
+}
+
+export { getProviderConfig, getProviderOverrides, applyProviderConfig, setProviderSettings } from './config';
+export type * from './types';
@@ -0,0 +1,257 @@
+import { readSSEStream } from './sse';
+import type {
+  ChatProvider,
+  ChatRequest,
+  ChatStreamHandlers,
+  ChatUsage,
+  EmbeddingProvider,
+  ProviderKind,
+  ProviderSettings,
+  SpeechProvider,
+  ToolCall,
+  TranscriptionOptions,
+  TranscriptionProvider,
+} from './types';
+
+export interface OpenAIStreamResponse {
+  id: string;
+  object: string;
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    delta: {
+      content?: string;
+      role?: string;
+      tool_calls?: Array<{
+        index: number;
+        id?: string;
+        type?: 'function';
+        function?: {
+          name?: string;
+          arguments?: string;
+        };
+      }>;
+    };
+    finish_reason: string | null;
+  }>;
+  // only on the final chunk, when stream_options.include_usage is set
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  } | null;
+  error?: { message?: string };
+}
+
+const AUDIO_EXTENSIONS = ['mp3', 'wav', 'm4a', 'mp4', 'mpeg', 'mpga', 'oga', 'ogg', 'flac', 'webm'];
+
+// Determine the correct file extension based on the blob's MIME type
+function audioFileExtension(audioBlob: Blob): string {
+  return AUDIO_EXTENSIONS.find(extension => audioBlob.type.includes(extension)) ?? 'webm';
+}
+
+// tool calls arrive in fragments keyed by index: id and name first, arguments piecemeal
+function mergeToolCallDeltas(toolCalls: ToolCall[], deltas: NonNullable<OpenAIStreamResponse['choices'][number]['delta']['tool_calls']>) {
+  for (const delta of deltas) {
+    const call = toolCalls[delta.index] ??= { id: '', type: 'function', function: { name: '', arguments: '' } };
+    if (delta.id) call.id = delta.id;
+    if (delta.function?.name) call.function.name += delta.function.name;
+    if (delta.function?.arguments) call.function.arguments += delta.function.arguments;
+  }
+}
+
+async function readError(response: Response): Promise<Error> {
+  const errorData = await response.json().catch(() => ({}));
+  return new Error(errorData.error?.message || `HTTP ${response.status}: ${response.statusText}`);
+}
+
+/**
+ * Talks to the OpenAI REST API, or to anything that mimics it (llama.cpp server,
+ * Ollama, LocalAI...). One instance serves a single capability and model.
+ */
+export class OpenAICompatibleProvider implements ChatProvider, SpeechProvider, TranscriptionProvider, EmbeddingProvider {
+  readonly kind: ProviderKind;
+  readonly model: string;
+  readonly supportsTools = true;
+  private baseURL: string;
+  private apiKey?: string;
+
+  constructor(settings: ProviderSettings, model: string) {
+    this.kind = settings.kind;
+    this.model = model;
+    this.baseURL = (settings.baseURL || 'https://api.openai.com/v1').replace(/\/+$/, '');
+    this.apiKey = settings.apiKey;
+
+    if (this.kind === 'openai' && !this.apiKey) {
+      throw new Error('OpenAI API key not found. Please set VITE_OPENAI_API_KEY in your environment variables.');
+    }
+  }
+
+  private headers(json: boolean): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (json) headers['Content-Type'] = 'application/json';
+    // local servers usually run without auth
+    if (this.apiKey) headers['Authorization'] = `Bearer ${this.apiKey}`;
+    return headers;
+  }
+
+  async streamChat(request: ChatRequest, { onChunk, onComplete, onError }: ChatStreamHandlers) {
+    try {
+      const response = await fetch(`${this.baseURL}/chat/completions`, {
+        method: 'POST',
+        headers: this.headers(true),
+        body: JSON.stringify({
+          model: this.model,
+          messages: request.messages,
+          stream: true,
+          stream_options: { include_usage: true },
+          temperature: request.temperature ?? 0.7,
+          max_tokens: request.maxTokens ?? 1000,
+          ...(request.tools?.length ? { tools: request.tools } : {}),
+          ...(request.responseFormat ? { response_format: request.responseFormat } : {}),
+        }),
+        signal: request.signal,
+      });
+
+      if (!response.ok) {
+        throw await readError(response);
+      }
+
+      if (!response.body) {
+        throw new Error('Failed to get response reader');
+      }
+
+      let fullResponse = '';
+      let finishReason: string | null = null;
+      let usage: ChatUsage | undefined;
+      const toolCalls: ToolCall[] = [];
+
+      // some compatible servers close the stream without sending [DONE], so
+      // completion is reported once the body ends either way
+      await readSSEStream(response.body, ({ event, data }) => {
+        if (data === '[DONE]') {
+          return false;
+        }
+
+        let parsed: OpenAIStreamResponse;
+        try {
+          parsed = JSON.parse(data);
+        } catch {
+          // events arrive whole, so this is a malformed payload rather than a split one
+          console.warn('Skipping malformed chat stream event:', data.substring(0, 100));
+          return;
+        }
+
+        if (event === 'error' || parsed.error) {
+          throw new Error(parsed.error?.message || 'Chat stream reported an error');
+        }
+
+        const choice = parsed.choices?.[0];
+        const content = choice?.delta?.content;
+        if (content) {
+          fullResponse += content;
+          onChunk(content);
+        }
+        if (choice?.delta?.tool_calls) {
+          mergeToolCallDeltas(toolCalls, choice.delta.tool_calls);
+        }
+        if (choice?.finish_reason) {
+          finishReason = choice.finish_reason;
+        }
+        if (parsed.usage) {
+          usage = {
+            promptTokens: parsed.usage.prompt_tokens,
+            completionTokens: parsed.usage.completion_tokens,
+            totalTokens: parsed.usage.total_tokens,
+          };
+        }
+      });
+
+      onComplete(fullResponse, { finishReason, toolCalls, usage });
+    } catch (error) {
+      onError(error instanceof Error ? error.message : 'Unknown error occurred');
+    }
+  }
+
+  async textToSpeech(text: string, voice: string, speed: number = 1.0, signal?: AbortSignal): Promise<Blob> {
+    const response = await fetch(`${this.baseURL}/audio/speech`, {
+      method: 'POST',
+      headers: this.headers(true),
+      body: JSON.stringify({
+        model: this.model,
+        input: text,
+        voice,
+        response_format: 'mp3',
+        speed,
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw await readError(response);
+    }
+
+    return await response.blob();
+  }
+
+  async transcribe(audio: Blob, options: TranscriptionOptions = {}): Promise<string> {
+    const formData = new FormData();
+    formData.append('file', audio, `audio.${audioFileExtension(audio)}`);
+    formData.append('model', this.model);
+    formData.append('language', options.language ?? 'en');
+    formData.append('response_format', 'json');
+    formData.append('temperature', String(options.temperature ?? 0.2));
+    if (options.prompt) formData.append('prompt', options.prompt);
+
+    const response = await fetch(`${this.baseURL}/audio/transcriptions`, {
+      method: 'POST',
+      headers: this.headers(false),
+      body: formData,
+    });
+
+    if (!response.ok) {
+      throw await readError(response);
+    }
+
+    const result = await response.json();
+
+    if (result.text) {
+      return result.text;
+    }
+    if (result.segments && result.segments.length > 0) {
+      // Fallback: combine segments if text is not directly available
+      return result.segments.map((segment: { text: string }) => segment.text).join(' ').trim();
+    }
+    throw new Error('No transcription text found in response');
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const [embedding] = await this.embedBatch([text]);
+    return embedding;
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    const response = await fetch(`${this.baseURL}/embeddings`, {
+      method: 'POST',
+      headers: this.headers(true),
+      body: JSON.stringify({
+        input: texts,
+        model: this.model,
+      }),
+    });
+
+    if (!response.ok) {
+      throw await readError(response);
+    }
+
+    const result = await response.json();
+    // the data entries carry their input position; not every server keeps them in order
+    const data = [...result.data] as { index?: number; embedding: number[] }[];
+    data.sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+    if (data.length !== texts.length) {
+      throw new Error(`Expected ${texts.length} embeddings, got ${data.length}`);
+    }
+    return data.map(entry => entry.embedding);
+  }
+}
@@ -0,0 +1,129 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { OpenAICompatibleProvider } from './openai';
+import { readSSEStream, SSEParser, type SSEEvent } from './sse';
+import type { ChatCompletionDetails } from './types';
+
+// a body that hands over exactly these reads, in order
+function streamOf(chunks: (string | Uint8Array)[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(typeof chunk === 'string' ? encoder.encode(chunk) : chunk);
+      }
+      controller.close();
+    },
+  });
+}
+
+async function collect(chunks: (string | Uint8Array)[]): Promise<SSEEvent[]> {
+  const events: SSEEvent[] = [];
+  await readSSEStream(streamOf(chunks), event => {
+    events.push(event);
+  });
+  return events;
+}
+
+describe('SSEParser', () => {
+  it('waits for the rest of a data: payload split across reads', () => {
+    const parser = new SSEParser();
+    expect(parser.feed('data: {"choices":[{"delta":{"con')).toEqual([]);
+    expect(parser.feed('tent":"Hi"}}]}\n\n')).toEqual([
+      { event: 'message', data: '{"choices":[{"delta":{"content":"Hi"}}]}' },
+    ]);
+  });
+
+  it('treats a \\r\\n split across two reads as one line end', () => {
+    const parser = new SSEParser();
+    const events = [...parser.feed('data: one\r'), ...parser.feed('\ndata: two\r\n\r'), ...parser.feed('\n')];
+    expect(events).toEqual([{ event: 'message', data: 'one\ntwo' }]);
+  });
+
+  it('joins several data: lines with newlines', () => {
+    const parser = new SSEParser();
+    expect(parser.feed('data: first\ndata:second\ndata:  third\n\n')).toEqual([
+      { event: 'message', data: 'first\nsecond\n third' },
+    ]);
+  });
+
+  it('reads event: and id: fields, and keeps the last id for later events', () => {
+    const parser = new SSEParser();
+    expect(parser.feed('event: error\nid: 7\ndata: {"error":{}}\n\ndata: next\n\n')).toEqual([
+      { event: 'error', data: '{"error":{}}', id: '7' },
+      { event: 'message', data: 'next', id: '7' },
+    ]);
+  });
+
+  it('ignores comments and events without data', () => {
+    const parser = new SSEParser();
+    expect(parser.feed(': keep-alive\n\nevent: ping\n\n')).toEqual([]);
+  });
+});
+
+describe('readSSEStream', () => {
+  it('keeps a multi-byte character split across reads intact', async () => {
+    const bytes = new TextEncoder().encode('data: café ☕\n\n');
+    const split = bytes.indexOf(0xe2) + 1; // inside the three bytes of ☕
+    expect(await collect([bytes.slice(0, 5), bytes.slice(5, split), bytes.slice(split)])).toEqual([
+      { event: 'message', data: 'café ☕' },
+    ]);
+  });
+
+  it('dispatches the last event when the stream ends without a blank line or [DONE]', async () => {
+    expect(await collect(['data: one\n\n', 'data: two'])).toEqual([
+      { event: 'message', data: 'one' },
+      { event: 'message', data: 'two' },
+    ]);
+  });
+
+  it('stops reading when onEvent returns false', async () => {
+    const events: string[] = [];
+    await readSSEStream(streamOf(['data: a\n\ndata: [DONE]\n\ndata: b\n\n']), ({ data }) => {
+      events.push(data);
+      return data !== '[DONE]';
+    });
+    expect(events).toEqual(['a', '[DONE]']);
+  });
+});
+
+describe('OpenAICompatibleProvider.streamChat', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function streamChat(chunks: string[]) {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(streamOf(chunks))));
+    const provider = new OpenAICompatibleProvider({ kind: 'openai-compatible', baseURL: 'http://localhost:8080/v1' }, 'test');
+    return new Promise<{ text: string; chunks: string[]; details?: ChatCompletionDetails }>((resolve, reject) => {
+      const received: string[] = [];
+      provider.streamChat({ messages: [{ role: 'user', content: 'Hi' }] }, {
+        onChunk: content => received.push(content),
+        onComplete: (text, details) => resolve({ text, chunks: received, details }),
+        onError: reject,
+      });
+    });
+  }
+
+  it('reports finish_reason and usage from the final chunks', async () => {
+    const result = await streamChat([
+      'data: {"choices":[{"index":0,"delta":{"content":"Hel"},"finish_reason":null}]}\n\n',
+      'data: {"choices":[{"index":0,"delta":{"content":"lo"},"finish_',
+      'reason":null}]}\n\ndata: {"choices":[{"index":0,"delta":{},"finish_reason":"length"}]}\n\n',
+      'data: {"choices":[],"usage":{"prompt_tokens":12,"completion_tokens":2,"total_tokens":14}}\n\n',
+      'data: [DONE]\n\n',
+    ]);
+    expect(result.text).toBe('Hello');
+    expect(result.chunks).toEqual(['Hel', 'lo']);
+    expect(result.details?.finishReason).toBe('length');
+    expect(result.details?.usage).toEqual({ promptTokens: 12, completionTokens: 2, totalTokens: 14 });
+  });
+
+  it('completes when the server closes the stream without [DONE]', async () => {
+    const result = await streamChat([
+      'data: {"choices":[{"index":0,"delta":{"content":"Hi"},"finish_reason":"stop"}]}',
+    ]);
+    expect(result.text).toBe('Hi');
+    expect(result.details?.finishReason).toBe('stop');
+    expect(result.details?.usage).toBeUndefined();
+  });
+});
@@ -0,0 +1,143 @@
+export interface SSEEvent {
+  event: string; // 'message' unless the server set an `event:` field
+  data: string;
+  id?: string;
+  retry?: number;
+}
+
+/**
+ * Incremental parser for text/event-stream bodies, following the WHATWG spec: lines may
+ * end in \n, \r or \r\n, fields can be split anywhere across reads, and consecutive
+ * `data:` lines are joined with \n. Feed it decoded text as it arrives.
+ */
+export class SSEParser {
+  private buffer = '';
+  private dataLines: string[] = [];
+  private eventType = '';
+  private lastEventId = '';
+  private retry?: number;
+  private skipLeadingLF = false;
+  private started = false;
+
+  feed(text: string): SSEEvent[] {
+    if (!this.started && text) {
+      this.started = true;
+      if (text.startsWith('\uFEFF')) text = text.slice(1);
+    }
+    // a \r that ended the previous read may have been the first half of \r\n
+    if (this.skipLeadingLF && text) {
+      if (text.startsWith('\n')) text = text.slice(1);
+      this.skipLeadingLF = false;
+    }
+
+    this.buffer += text;
+    const events: SSEEvent[] = [];
+    const lineEnd = /\r\n|\r|\n/g;
+    let consumed = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = lineEnd.exec(this.buffer))) {
+      if (match[0] === '\r' && match.index === this.buffer.length - 1) {
+        this.skipLeadingLF = true;
+      }
+      const event = this.processLine(this.buffer.slice(consumed, match.index));
+      if (event) events.push(event);
+      consumed = match.index + match[0].length;
+    }
+
+    this.buffer = this.buffer.slice(consumed);
+    return events;
+  }
+
+  // Call once the stream ends. Unlike the spec we also dispatch an event that was not
+  // followed by a blank line, since some servers just close the connection.
+  flush(): SSEEvent[] {
+    const events: SSEEvent[] = [];
+    if (this.buffer) {
+      const event = this.processLine(this.buffer);
+      if (event) events.push(event);
+      this.buffer = '';
+    }
+    const last = this.dispatch();
+    if (last) events.push(last);
+    return events;
+  }
+
+  private processLine(line: string): SSEEvent | null {
+    if (line === '') {
+      return this.dispatch();
+    }
+    if (line.startsWith(':')) {
+      return null; // comment / keep-alive
+    }
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'data':
+        this.dataLines.push(value);
+        break;
+      case 'event':
+        this.eventType = value;
+        break;
+      case 'id':
+        if (!value.includes('\0')) this.lastEventId = value;
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) this.retry = parseInt(value, 10);
+        break;
+    }
+    return null;
+  }
+
+  private dispatch(): SSEEvent | null {
+    const eventType = this.eventType;
+    this.eventType = '';
+    if (this.dataLines.length === 0) {
+      return null;
+    }
+
+    const event: SSEEvent = {
+      event: eventType || 'message',
+      data: this.dataLines.join('\n'),
+    };
+    this.dataLines = [];
+    if (this.lastEventId) event.id = this.lastEventId;
+    if (this.retry !== undefined) event.retry = this.retry;
+    return event;
+  }
+}
+
+/**
+ * Reads a fetch body as a stream of SSE events. Returning false from onEvent stops
+ * reading and cancels the underlying stream.
+ */
+export async function readSSEStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: SSEEvent) => boolean | void,
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const parser = new SSEParser();
+
+  const emit = (events: SSEEvent[]) => events.every(event => onEvent(event) !== false);
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      // stream: true keeps multi-byte characters that straddle two reads intact
+      if (!emit(parser.feed(decoder.decode(value, { stream: true })))) {
+        await reader.cancel();
+        return;
+      }
+    }
+    emit(parser.feed(decoder.decode()));
+    emit(parser.flush());
+  } finally {
+    reader.releaseLock();
+  }
+}
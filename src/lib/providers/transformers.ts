@@ -0,0 +1,209 @@
+import { convertBlobToAudio } from '@/hooks/useWhisperRecognition';
+import type {
+  ChatProvider,
+  ChatRequest,
+  ChatStreamHandlers,
+  EmbeddingProvider,
+  TranscriptionOptions,
+  TranscriptionProvider,
+} from './types';
+
+// longest a single transcription may take once the model is loaded; Whisper decodes at
+// most MAX_NEW_TOKENS (whisper-worker.js), so only a worker that stopped answering hits it
+const TRANSCRIPTION_TIMEOUT_MS = 60_000;
+
+// resolves once the worker reports 'ready' after a 'load' request
+function loadWorker(worker: Worker, data?: unknown): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onMessage = (e: MessageEvent) => {
+      const { status, data } = e.data;
+      if (status === 'ready') {
+        worker.removeEventListener('message', onMessage);
+        resolve();
+      } else if (status === 'error') {
+        worker.removeEventListener('message', onMessage);
+        reject(new Error(data || 'Failed to load in-browser model'));
+      }
+    };
+    worker.addEventListener('message', onMessage);
+    worker.postMessage({ type: 'load', data });
+  });
+}
+
+/**
+ * Runs chat completions on the Ultravox model in llama-worker.js (WebGPU).
+ * The worker handles one generation at a time, so requests are chained.
+ */
+export class TransformersChatProvider implements ChatProvider {
+  readonly kind = 'transformers' as const;
+  readonly supportsTools = false;
+  private worker: Worker;
+  private ready: Promise<void>;
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor() {
+    this.worker = new Worker(new URL('../../llama-worker.js', import.meta.url), { type: 'module' });
+    this.ready = loadWorker(this.worker);
+  }
+
+  streamChat(request: ChatRequest, handlers: ChatStreamHandlers): Promise<void> {
+    const run = () => this.generate(request, handlers);
+    this.pending = this.pending.then(run, run);
+    return this.pending;
+  }
+
+  private async generate(request: ChatRequest, { onChunk, onComplete, onError }: ChatStreamHandlers) {
+    try {
+      await this.ready;
+    } catch (error) {
+      onError(error instanceof Error ? error.message : 'In-browser model failed to load');
+      return;
+    }
+
+    if (request.signal?.aborted) {
+      onError('Request aborted');
+      return;
+    }
+
+    await new Promise<void>((resolve) => {
+      let fullResponse = '';
+      // the worker stops early on 'interrupt' and still reports 'complete'
+      const onAbort = () => this.worker.postMessage({ type: 'interrupt' });
+      request.signal?.addEventListener('abort', onAbort, { once: true });
+      const finish = () => {
+        this.worker.removeEventListener('message', onMessage);
+        request.signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      const onMessage = (e: MessageEvent) => {
+        const { status, output, data } = e.data;
+        switch (status) {
+          case 'update':
+            if (typeof output === 'string') {
+              fullResponse += output;
+              onChunk(output);
+            }
+            break;
+          case 'complete':
+            finish();
+            if (request.signal?.aborted) {
+              onError('Request aborted');
+            } else {
+              onComplete(typeof output === 'string' && output ? output : fullResponse);
+            }
+            break;
+          case 'error':
+            finish();
+            onError(data || 'In-browser generation failed');
+            break;
+        }
+      };
+      this.worker.addEventListener('message', onMessage);
+      this.worker.postMessage({ type: 'generate', data: { messages: request.messages, audio: null } });
+    });
+  }
+}
+
+/**
+ * Transcribes with Whisper in whisper-worker.js. Audio is decoded and resampled on the
+ * calling thread, so this provider needs the Web Audio API (i.e. the main thread).
+ */
+export class TransformersTranscriptionProvider implements TranscriptionProvider {
+  readonly kind = 'transformers' as const;
+  private worker: Worker;
+  private ready: Promise<void>;
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor() {
+    this.worker = new Worker(new URL('../../whisper-worker.js', import.meta.url), { type: 'module' });
+    this.ready = loadWorker(this.worker);
+  }
+
+  // a worker stuck on one recording would drop every later one, so it's replaced
+  private restart() {
+    this.worker.terminate();
+    this.worker = new Worker(new URL('../../whisper-worker.js', import.meta.url), { type: 'module' });
+    this.ready = loadWorker(this.worker);
+  }
+
+  transcribe(audio: Blob, options: TranscriptionOptions = {}): Promise<string> {
+    const run = () => this.run(audio, options);
+    const result = this.pending.then(run, run);
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+
+  private async run(audio: Blob, { language = 'en' }: TranscriptionOptions): Promise<string> {
+    await this.ready;
+    const samples = await convertBlobToAudio(audio);
+    if (!samples) {
+      throw new Error('Could not decode audio for in-browser transcription');
+    }
+
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        this.worker.removeEventListener('message', onMessage);
+        this.restart();
+        reject(new Error('In-browser transcription timed out'));
+      }, TRANSCRIPTION_TIMEOUT_MS);
+      const onMessage = (e: MessageEvent) => {
+        const { status, output, data } = e.data;
+        if (status === 'complete') {
+          this.worker.removeEventListener('message', onMessage);
+          clearTimeout(timeout);
+          resolve((Array.isArray(output) ? output.join(' ') : String(output ?? '')).trim());
+        } else if (status === 'error') {
+          this.worker.removeEventListener('message', onMessage);
+          clearTimeout(timeout);
+          reject(new Error(data || 'In-browser transcription failed'));
+        }
+      };
+      this.worker.addEventListener('message', onMessage);
+      this.worker.postMessage({ type: 'generate', data: { audio: samples, language } });
+    });
+  }
+}
+
+/**
+ * Embeds with a sentence-transformers model in embedding-worker.js (WebGPU when available,
+ * otherwise WASM), so memory works without a network connection.
+ */
+export class TransformersEmbeddingProvider implements EmbeddingProvider {
+  readonly kind = 'transformers' as const;
+  readonly model: string;
+  private worker: Worker;
+  private ready: Promise<void>;
+  private nextId = 0;
+
+  constructor(model: string) {
+    this.model = model;
+    this.worker = new Worker(new URL('../../embedding-worker.js', import.meta.url), { type: 'module' });
+    this.ready = loadWorker(this.worker, { model });
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const [embedding] = await this.embedBatch([text]);
+    return embedding;
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    await this.ready;
+    const id = this.nextId++;
+
+    return new Promise((resolve, reject) => {
+      const onMessage = (e: MessageEvent) => {
+        const { status, output, data } = e.data;
+        if (e.data.id !== id) return;
+        if (status === 'complete') {
+          this.worker.removeEventListener('message', onMessage);
+          resolve(output);
+        } else if (status === 'error') {
+          this.worker.removeEventListener('message', onMessage);
+          reject(new Error(data || 'In-browser embedding failed'));
+        }
+      };
+      this.worker.addEventListener('message', onMessage);
+      this.worker.postMessage({ type: 'embed', data: { id, texts } });
+    });
+  }
+}
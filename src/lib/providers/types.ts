@@ -0,0 +1,108 @@
+export type Capability = 'chat' | 'tts' | 'transcription' | 'embedding';
+
+// 'openai' talks to api.openai.com, 'openai-compatible' to any server that speaks the
+// same REST API (llama.cpp, Ollama, LocalAI...), 'transformers' runs in the browser.
+export type ProviderKind = 'openai' | 'openai-compatible' | 'transformers';
+
+export interface ProviderSettings {
+  kind: ProviderKind;
+  baseURL?: string;
+  apiKey?: string;
+  model?: string;
+}
+
+export type ProviderConfig = Record<Capability, ProviderSettings>;
+
+export interface ToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string; // JSON, as produced by the model
+  };
+}
+
+// JSON schema description of a tool, in the shape the chat completions API expects
+export interface ToolSchema {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>;
+  };
+}
+
+export interface ChatMessage {
+  role: 'user' | 'assistant' | 'system' | 'tool';
+  content: string | null;
+  tool_calls?: ToolCall[];
+  tool_call_id?: string;
+}
+
+// structured output: the reply must be JSON matching the schema. Providers that can't
+// enforce it (the in-browser model) ignore it, so callers still validate the reply.
+export interface ResponseFormat {
+  type: 'json_schema';
+  json_schema: {
+    name: string;
+    schema: Record<string, unknown>;
+    strict?: boolean;
+  };
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  tools?: ToolSchema[];
+  responseFormat?: ResponseFormat;
+  signal?: AbortSignal;
+}
+
+export interface ChatUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface ChatCompletionDetails {
+  finishReason: string | null; // 'stop', 'length', 'tool_calls'...
+  toolCalls: ToolCall[];
+  usage?: ChatUsage;
+}
+
+export interface ChatStreamHandlers {
+  onChunk: (content: string) => void;
+  onComplete: (fullResponse: string, details?: ChatCompletionDetails) => void;
+  onError: (error: string) => void;
+}
+
+export interface TranscriptionOptions {
+  language?: string;
+  prompt?: string;
+  temperature?: number;
+}
+
+export interface ChatProvider {
+  readonly kind: ProviderKind;
+  readonly supportsTools: boolean;
+  streamChat(request: ChatRequest, handlers: ChatStreamHandlers): Promise<void>;
+}
+
+export interface SpeechProvider {
+  readonly kind: ProviderKind;
+  textToSpeech(text: string, voice: string, speed?: number, signal?: AbortSignal): Promise<Blob>;
+}
+
+export interface TranscriptionProvider {
+  readonly kind: ProviderKind;
+  transcribe(audio: Blob, options?: TranscriptionOptions): Promise<string>;
+}
+
+export interface EmbeddingProvider {
+  readonly kind: ProviderKind;
+  readonly model: string;
+  embed(text: string): Promise<number[]>;
+  // one request for several texts, results in input order
+  embedBatch(texts: string[]): Promise<number[][]>;
+}
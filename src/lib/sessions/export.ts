@@ -0,0 +1,84 @@
+import type { Message, TranscriptFormat } from '@/types/chat';
+import type { SessionRecord } from './index';
+
+export interface TranscriptFile {
+  filename: string;
+  mimeType: string;
+  content: string;
+}
+
+const SPEAKERS: Record<Message['role'], string> = {
+  user: 'You',
+  assistant: 'Samantha',
+  system: 'System',
+};
+
+const EXTENSIONS: Record<TranscriptFormat, string> = {
+  markdown: 'md',
+  json: 'json',
+  text: 'txt',
+};
+
+const MIME_TYPES: Record<TranscriptFormat, string> = {
+  markdown: 'text/markdown',
+  json: 'application/json',
+  text: 'text/plain',
+};
+
+function formatTime(timestamp?: number): string {
+  return timestamp ? new Date(timestamp).toLocaleString() : '';
+}
+
+function toMarkdown(session: SessionRecord, messages: Message[]): string {
+  const lines = [`# Conversation with Samantha`, '', `Started ${formatTime(session.startedAt)}`, ''];
+  for (const message of messages) {
+    lines.push(`**${SPEAKERS[message.role]}** _(${formatTime(message.timestamp)})_`, '', message.content, '');
+  }
+  return lines.join('\n');
+}
+
+function toText(session: SessionRecord, messages: Message[]): string {
+  const lines = [`Conversation with Samantha, started ${formatTime(session.startedAt)}`, ''];
+  for (const message of messages) {
+    lines.push(`[${formatTime(message.timestamp)}] ${SPEAKERS[message.role]}: ${message.content}`);
+  }
+  return lines.join('\n');
+}
+
+function toJSON(session: SessionRecord, messages: Message[]): string {
+  return JSON.stringify({
+    session: { id: session.id, startedAt: session.startedAt, updatedAt: session.updatedAt },
+    messages: messages.map(message => ({
+      role: message.role,
+      content: message.content,
+      timestamp: message.timestamp ?? null,
+      time: message.timestamp ? new Date(message.timestamp).toISOString() : null,
+      citations: message.citations ?? [], // ids of the memories a reply drew on
+    })),
+  }, null, 2);
+}
+
+export function exportTranscript(session: SessionRecord, messages: Message[], format: TranscriptFormat): TranscriptFile {
+  const content = format === 'markdown'
+    ? toMarkdown(session, messages)
+    : format === 'json'
+      ? toJSON(session, messages)
+      : toText(session, messages);
+
+  const date = new Date(session.startedAt).toISOString().slice(0, 10);
+  return {
+    filename: `samantha-${date}-${session.id.slice(0, 8)}.${EXTENSIONS[format]}`,
+    mimeType: MIME_TYPES[format],
+    content,
+  };
+}
+
+// saves the file through a temporary link
+export function downloadTranscript({ filename, mimeType, content }: TranscriptFile) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,206 @@
+import type { RetrievalLog } from '../contextBuilder';
+import { openDB, openFromStore, requestToPromise, sealForStore, transactionDone, SESSIONS_STORE, TURNS_STORE } from '../memory/indexeddb';
+
+export interface SessionRecord {
+  id: string;
+  startedAt: number;
+  updatedAt: number;
+  // rolling summary of the turns that no longer fit in the context window
+  summary?: string;
+  summaryCoveredCount?: number;
+}
+
+export interface TurnRecord {
+  id: number;
+  sessionId: string;
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: number;
+  citations?: number[]; // memory ids an assistant reply cited (see lib/citations.ts)
+  retrieval?: RetrievalLog; // the memories retrieved for the reply
+}
+
+export type TurnDetails = Pick<TurnRecord, 'citations' | 'retrieval'>;
+
+export async function createSession(): Promise<SessionRecord> {
+  const now = Date.now();
+  const session: SessionRecord = { id: crypto.randomUUID(), startedAt: now, updatedAt: now };
+  const [stored] = await sealForStore(SESSIONS_STORE, [session]);
+  const db = await openDB();
+  await requestToPromise(db.transaction(SESSIONS_STORE, 'readwrite').objectStore(SESSIONS_STORE).add(stored));
+  return session;
+}
+
+export async function getSession(id: string): Promise<SessionRecord | undefined> {
+  const db = await openDB();
+  const session = await requestToPromise(db.transaction(SESSIONS_STORE, 'readonly').objectStore(SESSIONS_STORE).get(id));
+  return session && (await openFromStore<SessionRecord>([session]))[0];
+}
+
+// the most recently active session
+export async function getLatestSession(): Promise<SessionRecord | undefined> {
+  const db = await openDB();
+  const index = db.transaction(SESSIONS_STORE, 'readonly').objectStore(SESSIONS_STORE).index('updatedAt');
+  const cursor = await requestToPromise(index.openCursor(null, 'prev'));
+  return cursor ? (await openFromStore<SessionRecord>([cursor.value]))[0] : undefined;
+}
+
+// records a turn and bumps the session's updatedAt in one transaction
+export async function addTurn(sessionId: string, role: TurnRecord['role'], content: string, details: TurnDetails = {}): Promise<number> {
+  const timestamp = Date.now();
+  const [turn] = await sealForStore(TURNS_STORE, [{ ...details, sessionId, role, content, timestamp }]);
+  const db = await openDB();
+  const transaction = db.transaction([TURNS_STORE, SESSIONS_STORE], 'readwrite');
+
+  const addRequest = transaction.objectStore(TURNS_STORE).add(turn);
+  const sessions = transaction.objectStore(SESSIONS_STORE);
+  // updatedAt is indexed, so it stays readable in a sealed session too
+  const session = await requestToPromise(sessions.get(sessionId));
+  if (session) {
+    sessions.put({ ...session, updatedAt: timestamp });
+  }
+
+  await transactionDone(transaction);
+  return addRequest.result as number;
+}
+
+// turns of a session in the order they were said
+export async function getSessionTurns(sessionId: string): Promise<TurnRecord[]> {
+  const db = await openDB();
+  const index = db.transaction(TURNS_STORE, 'readonly').objectStore(TURNS_STORE).index('sessionId');
+  const turns = await openFromStore<TurnRecord>(await requestToPromise(index.getAll(sessionId)));
+  return turns.sort((a, b) => a.timestamp - b.timestamp || a.id - b.id);
+}
+
+export async function updateSessionSummary(sessionId: string, summary: string, coveredCount: number): Promise<void> {
+  const session = await getSession(sessionId);
+  if (!session) return;
+  const [stored] = await sealForStore(SESSIONS_STORE, [{ ...session, summary, summaryCoveredCount: coveredCount }]);
+
+  const db = await openDB();
+  const transaction = db.transaction(SESSIONS_STORE, 'readwrite');
+  const sessions = transaction.objectStore(SESSIONS_STORE);
+  // a turn added while the summary was being sealed has bumped updatedAt since
+  const current = await requestToPromise(sessions.get(sessionId)) as Pick<SessionRecord, 'updatedAt'> | undefined;
+  if (current) {
+    sessions.put({ ...stored, updatedAt: current.updatedAt });
+  }
+  await transactionDone(transaction);
+}
+
+export interface SessionOverview {
+  session: SessionRecord;
+  turnCount: number;
+  preview: string; // first thing the user said
+}
+
+// every session, most recent first
+export async function listSessions(): Promise<SessionOverview[]> {
+  const db = await openDB();
+  const transaction = db.transaction([SESSIONS_STORE, TURNS_STORE], 'readonly');
+  const storedSessions = await requestToPromise(transaction.objectStore(SESSIONS_STORE).getAll());
+  const storedTurns = await requestToPromise(transaction.objectStore(TURNS_STORE).getAll());
+  const sessions = await openFromStore<SessionRecord>(storedSessions);
+  const turns = await openFromStore<TurnRecord>(storedTurns);
+
+  const overviews = new Map<string, SessionOverview>(
+    sessions.map(session => [session.id, { session, turnCount: 0, preview: '' }]),
+  );
+  for (const turn of turns) {
+    const overview = overviews.get(turn.sessionId);
+    if (!overview) continue;
+    overview.turnCount++;
+    if (!overview.preview && turn.role === 'user') {
+      overview.preview = turn.content;
+    }
+  }
+
+  return [...overviews.values()]
+    .filter(overview => overview.turnCount > 0)
+    .sort((a, b) => b.session.updatedAt - a.session.updatedAt);
+}
+
+// case-insensitive substring search over every turn, newest first
+export async function searchTurns(query: string, limit = 50): Promise<TurnRecord[]> {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+
+  const db = await openDB();
+  const turns = await openFromStore<TurnRecord>(await requestToPromise(
+    db.transaction(TURNS_STORE, 'readonly').objectStore(TURNS_STORE).getAll(),
+  ));
+
+  return turns
+    .filter(turn => turn.content.toLowerCase().includes(needle))
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .slice(0, limit);
+}
+
+// removes a session along with all of its turns
+export async function deleteSession(sessionId: string): Promise<void> {
+  const db = await openDB();
+  const transaction = db.transaction([SESSIONS_STORE, TURNS_STORE], 'readwrite');
+  transaction.objectStore(SESSIONS_STORE).delete(sessionId);
+
+  const cursorRequest = transaction.objectStore(TURNS_STORE).index('sessionId').openCursor(IDBKeyRange.only(sessionId));
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (cursor) {
+      cursor.delete();
+      cursor.continue();
+    }
+  };
+
+  await transactionDone(transaction);
+}
+
+// every session and turn, e.g. for a backup
+export async function getAllSessionData(): Promise<{ sessions: SessionRecord[]; turns: TurnRecord[] }> {
+  const db = await openDB();
+  const transaction = db.transaction([SESSIONS_STORE, TURNS_STORE], 'readonly');
+  const sessions = await requestToPromise(transaction.objectStore(SESSIONS_STORE).getAll());
+  const turns = await requestToPromise(transaction.objectStore(TURNS_STORE).getAll());
+  return { sessions: await openFromStore<SessionRecord>(sessions), turns: await openFromStore<TurnRecord>(turns) };
+}
+
+/**
+ * Restores sessions from a backup. Sessions already stored are left as they are, along
+ * with their turns; the others' turns get new ids.
+ * @returns how many sessions were imported, and the new id of each imported turn by its id in the backup
+ */
+export async function importSessions(sessions: SessionRecord[], turns: TurnRecord[]): Promise<{ sessions: number; turnIds: Map<number, number> }> {
+  // sealed up front: the transaction below would commit while waiting on the crypto
+  const storedSessions = await sealForStore(SESSIONS_STORE, sessions);
+  const newTurns = turns.map(({ id, ...turn }) => [id, turn] as const);
+  const storedTurns = await sealForStore(TURNS_STORE, newTurns.map(([, turn]) => turn));
+  const db = await openDB();
+  const transaction = db.transaction([SESSIONS_STORE, TURNS_STORE], 'readwrite');
+  const sessionStore = transaction.objectStore(SESSIONS_STORE);
+  const turnStore = transaction.objectStore(TURNS_STORE);
+
+  const imported = new Set<string>();
+  for (const [i, session] of sessions.entries()) {
+    const existing = await requestToPromise(sessionStore.get(session.id));
+    if (existing) continue;
+    sessionStore.put(storedSessions[i]);
+    imported.add(session.id);
+  }
+
+  const requests = newTurns
+    .map(([id, turn], i) => [id, turn, storedTurns[i]] as const)
+    .filter(([, turn]) => imported.has(turn.sessionId))
+    .map(([id, , stored]) => [id, turnStore.add(stored)] as const);
+
+  await transactionDone(transaction);
+  return { sessions: imported.size, turnIds: new Map(requests.map(([id, request]) => [id, request.result as number])) };
+}
+
+export async function clearAllSessions(): Promise<void> {
+  const db = await openDB();
+  const transaction = db.transaction([SESSIONS_STORE, TURNS_STORE], 'readwrite');
+  transaction.objectStore(SESSIONS_STORE).clear();
+  transaction.objectStore(TURNS_STORE).clear();
+  await transactionDone(transaction);
+}
+
+export { exportTranscript, downloadTranscript, type TranscriptFile } from './export';
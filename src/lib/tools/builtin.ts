@@ -0,0 +1,86 @@
+import type { MemorySearch, ToolDefinition } from './types';
+
+const MAX_TIMER_SECONDS = 60 * 60 * 24;
+
+const activeTimers = new Map<string, ReturnType<typeof setTimeout>>();
+let nextTimerId = 1;
+
+export const createSearchMemoriesTool = (searchMemories: MemorySearch): ToolDefinition<{ query: string; limit?: number }> => ({
+  name: 'search_memories',
+  description: 'Search what you remember about the user from earlier conversations. Use it when the user refers to something they told you before.',
+  parameters: {
+    type: 'object',
+    properties: {
+      query: { type: 'string', description: 'What to look for, in natural language.' },
+      limit: { type: 'integer', description: 'Maximum number of memories to return (default 5).' },
+    },
+    required: ['query'],
+  },
+  async execute({ query, limit = 5 }) {
+    const memories = await searchMemories(query, Math.min(Math.max(limit, 1), 10));
+    return memories.map(memory => ({
+      text: memory.text,
+      when: new Date(memory.timestamp).toISOString(),
+    }));
+  },
+});
+
+export const setTimerTool: ToolDefinition<{ seconds: number; label?: string }> = {
+  name: 'set_timer',
+  description: 'Start a countdown timer. The user is told when it goes off.',
+  parameters: {
+    type: 'object',
+    properties: {
+      seconds: { type: 'integer', description: 'Duration in seconds.' },
+      label: { type: 'string', description: 'Short name for the timer, e.g. "tea".' },
+    },
+    required: ['seconds'],
+  },
+  execute({ seconds, label }, context) {
+    if (!Number.isFinite(seconds) || seconds <= 0 || seconds > MAX_TIMER_SECONDS) {
+      throw new Error(`seconds must be between 1 and ${MAX_TIMER_SECONDS}`);
+    }
+    const timerId = `timer-${nextTimerId++}`;
+    const handle = setTimeout(() => {
+      activeTimers.delete(timerId);
+      context.notify({ type: 'timer_done', timerId, label: label ?? null, seconds });
+    }, seconds * 1000);
+    activeTimers.set(timerId, handle);
+    return { timerId, endsAt: new Date(Date.now() + seconds * 1000).toISOString() };
+  },
+};
+
+export const cancelTimerTool: ToolDefinition<{ timerId: string }> = {
+  name: 'cancel_timer',
+  description: 'Cancel a timer previously started with set_timer.',
+  parameters: {
+    type: 'object',
+    properties: {
+      timerId: { type: 'string', description: 'The timerId returned by set_timer.' },
+    },
+    required: ['timerId'],
+  },
+  execute({ timerId }) {
+    const handle = activeTimers.get(timerId);
+    if (!handle) {
+      throw new Error(`No active timer with id ${timerId}`);
+    }
+    clearTimeout(handle);
+    activeTimers.delete(timerId);
+    return { cancelled: timerId };
+  },
+};
+
+export const currentTimeTool: ToolDefinition<Record<string, never>> = {
+  name: 'get_current_time',
+  description: "Get the current date and time in the user's timezone.",
+  parameters: { type: 'object', properties: {} },
+  execute() {
+    const now = new Date();
+    return {
+      iso: now.toISOString(),
+      local: now.toLocaleString(),
+      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    };
+  },
+};
@@ -0,0 +1,16 @@
+import { ToolRegistry } from './registry';
+import { cancelTimerTool, createSearchMemoriesTool, currentTimeTool, setTimerTool } from './builtin';
+import type { MemorySearch } from './types';
+
+// the tools Samantha gets in every conversation
+export function createDefaultToolRegistry(searchMemories: MemorySearch): ToolRegistry {
+  return new ToolRegistry()
+    .register(createSearchMemoriesTool(searchMemories))
+    .register(setTimerTool)
+    .register(cancelTimerTool)
+    .register(currentTimeTool);
+}
+
+export { ToolRegistry } from './registry';
+export { runChatWithTools, type ToolLoopHandlers, type ToolLoopOptions, type ToolLoopResult } from './runner';
+export type { MemorySearch, ToolActivity, ToolContext, ToolDefinition, ToolEvent } from './types';
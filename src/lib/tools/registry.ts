@@ -0,0 +1,62 @@
+import type { ToolCall, ToolSchema } from '../providers';
+import type { ToolActivity, ToolContext, ToolDefinition } from './types';
+
+// throws when the model produced malformed JSON
+export function parseToolArguments(call: ToolCall): Record<string, unknown> {
+  return call.function.arguments ? JSON.parse(call.function.arguments) : {};
+}
+
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition>();
+
+  register<Args>(tool: ToolDefinition<Args>): this {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool "${tool.name}" is already registered`);
+    }
+    this.tools.set(tool.name, tool as unknown as ToolDefinition);
+    return this;
+  }
+
+  get(name: string): ToolDefinition | undefined {
+    return this.tools.get(name);
+  }
+
+  list(): ToolDefinition[] {
+    return [...this.tools.values()];
+  }
+
+  schemas(): ToolSchema[] {
+    return this.list().map(tool => ({
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters,
+      },
+    }));
+  }
+
+  // never throws: failures are reported back to the model as the tool's result
+  async execute(call: ToolCall, context: ToolContext): Promise<ToolActivity> {
+    const activity: ToolActivity = { id: call.id, name: call.function.name, arguments: {} };
+    const tool = this.tools.get(call.function.name);
+    if (!tool) {
+      activity.error = `Unknown tool: ${call.function.name}`;
+      return activity;
+    }
+
+    try {
+      activity.arguments = parseToolArguments(call);
+    } catch {
+      activity.error = 'Arguments were not valid JSON';
+      return activity;
+    }
+
+    try {
+      activity.result = await tool.execute(activity.arguments, context);
+    } catch (error) {
+      activity.error = error instanceof Error ? error.message : 'Tool failed';
+    }
+    return activity;
+  }
+}
@@ -0,0 +1,104 @@
+import type { OpenAIService, OpenAIMessage } from '../openai';
+import type { ChatCompletionDetails, ChatUsage } from '../providers';
+import { parseToolArguments, type ToolRegistry } from './registry';
+import type { ToolActivity, ToolEvent } from './types';
+
+const MAX_TOOL_ROUNDS = 4;
+
+export interface ToolLoopHandlers {
+  onChunk: (content: string) => void;
+  onToolCall?: (activity: ToolActivity) => void;
+  onToolResult?: (activity: ToolActivity) => void;
+  onEvent?: (event: ToolEvent) => void;
+}
+
+export interface ToolLoopOptions {
+  signal?: AbortSignal;
+  maxTokens?: number; // per round
+}
+
+export interface ToolLoopResult {
+  text: string;
+  finishReason: string | null; // of the last round
+  usage?: ChatUsage; // summed over every round that reported it
+}
+
+function addUsage(total: ChatUsage | undefined, usage: ChatUsage | undefined): ChatUsage | undefined {
+  if (!usage) return total;
+  if (!total) return { ...usage };
+  return {
+    promptTokens: total.promptTokens + usage.promptTokens,
+    completionTokens: total.completionTokens + usage.completionTokens,
+    totalTokens: total.totalTokens + usage.totalTokens,
+  };
+}
+
+function streamRound(
+  service: OpenAIService,
+  messages: OpenAIMessage[],
+  registry: ToolRegistry | null,
+  onChunk: (content: string) => void,
+  options: ToolLoopOptions,
+) {
+  return new Promise<{ text: string; details?: ChatCompletionDetails }>((resolve, reject) => {
+    service.streamChat(
+      messages,
+      onChunk,
+      (text, details) => resolve({ text, details }),
+      (error) => reject(new Error(error)),
+      { ...options, tools: registry?.schemas() },
+    );
+  });
+}
+
+/**
+ * Streams a reply, running any tools the model asks for and feeding their results back
+ * until it answers in plain text. The returned text is every round's, concatenated.
+ */
+export async function runChatWithTools(
+  service: OpenAIService,
+  messages: OpenAIMessage[],
+  registry: ToolRegistry,
+  { onChunk, onToolCall, onToolResult, onEvent }: ToolLoopHandlers,
+  options: ToolLoopOptions = {},
+): Promise<ToolLoopResult> {
+  const conversation = [...messages];
+  let fullResponse = '';
+  let finishReason: string | null = null;
+  let usage: ChatUsage | undefined;
+
+  for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+    // the last round goes out without tools so the model has to answer
+    const { text, details } = await streamRound(service, conversation, round < MAX_TOOL_ROUNDS ? registry : null, onChunk, options);
+    fullResponse += text;
+    finishReason = details?.finishReason ?? null;
+    usage = addUsage(usage, details?.usage);
+
+    const toolCalls = details?.toolCalls.filter(call => call.function.name) ?? [];
+    if (toolCalls.length === 0) {
+      return { text: fullResponse, finishReason, usage };
+    }
+
+    conversation.push({ role: 'assistant', content: text || null, tool_calls: toolCalls });
+
+    for (const call of toolCalls) {
+      options.signal?.throwIfAborted();
+      let args: Record<string, unknown> = {};
+      try {
+        args = parseToolArguments(call);
+      } catch {
+        // reported by registry.execute below
+      }
+      onToolCall?.({ id: call.id, name: call.function.name, arguments: args });
+      const activity = await registry.execute(call, { notify: event => onEvent?.(event) });
+      onToolResult?.(activity);
+      conversation.push({
+        role: 'tool',
+        tool_call_id: call.id,
+        content: JSON.stringify(activity.error ? { error: activity.error } : activity.result ?? null),
+      });
+    }
+  }
+
+  return { text: fullResponse, finishReason, usage };
+}
@@ -0,0 +1,35 @@
+import type { MemorySearchResult } from '../memory';
+
+// Something a tool wants the UI to know about after the call returned (e.g. a timer going off)
+export interface ToolEvent {
+  type: string;
+  [key: string]: unknown;
+}
+
+// Runs a search_memories query against the memory index. The index and every write to it
+// live on the main thread, so the chat worker passes one that asks the main thread.
+export type MemorySearch = (query: string, topK: number) => Promise<Pick<MemorySearchResult, 'text' | 'timestamp'>[]>;
+
+export interface ToolContext {
+  notify: (event: ToolEvent) => void;
+}
+
+export interface ToolDefinition<Args = Record<string, unknown>> {
+  name: string;
+  description: string;
+  // JSON schema for the arguments object
+  parameters: {
+    type: 'object';
+    properties: Record<string, unknown>;
+    required?: string[];
+  };
+  execute: (args: Args, context: ToolContext) => Promise<unknown> | unknown;
+}
+
+export interface ToolActivity {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+  result?: unknown;
+  error?: string;
+}
@@ -1,32 +1,42 @@
 import { OpenAIService } from './lib/openai.js';
+import { applyProviderConfig } from './lib/providers/config.js';
 
 let openaiService = null;
 let isProcessing = false;
 let isInterrupted = false;
+let abortController = null;
 
-// Initialize OpenAI service
-try {
-  openaiService = new OpenAIService();
-  self.postMessage({ status: "ready" });
-} catch (error) {
-  self.postMessage({ 
-    status: "error", 
-    data: error.message || "Failed to initialize OpenAI TTS service" 
-  });
+// Initialize the service with the provider config picked on the main thread
+function initialize(config) {
+  try {
+    if (config) {
+      applyProviderConfig(config);
+    }
+    openaiService = new OpenAIService(config);
+    openaiService.getSpeechProvider();
+    self.postMessage({ status: "ready" });
+  } catch (error) {
+    self.postMessage({ 
+      status: "error", 
+      data: error.message || "Failed to initialize TTS provider" 
+    });
+  }
 }
 
 // Handle messages from main thread
 self.addEventListener("message", async (e) => {
-  const { type, text, voice, speed } = e.data;
+  const { type, text, voice, speed, generation, data } = e.data;
 
-  // Handle interrupt
+  // Handle interrupt: drop everything queued and abort the request in flight
   if (type === 'interrupt') {
     isInterrupted = true;
+    self.requestQueue = [];
+    abortController?.abort();
     return;
   }
 
-  // Handle load (already done in initialization)
   if (type === 'load') {
+    initialize(data?.providers);
     return;
   }
 
@@ -36,7 +46,7 @@ self.addEventListener("message", async (e) => {
     if (!self.requestQueue) {
       self.requestQueue = [];
     }
-    self.requestQueue.push({ type, text, voice, speed });
+    self.requestQueue.push({ type, text, voice, speed, generation });
     console.log("TTS request queued, current queue length:", self.requestQueue.length);
     return;
   }
@@ -67,11 +77,15 @@ self.addEventListener("message", async (e) => {
       'coral': 'coral'
     };
     
-    ttsVoice = voiceMapping[ttsVoice] || 'alloy';
+    // Compatible servers ship their own voice names, so only OpenAI gets the mapping
+    if (openaiService.getSpeechProvider().kind === 'openai') {
+      ttsVoice = voiceMapping[ttsVoice] || 'alloy';
+    }
     
     // Generate speech
     console.log("TTS generating speech for:", text.substring(0, 50) + "...");
-    const audioBlob = await openaiService.textToSpeech(text, ttsVoice);
+    abortController = new AbortController();
+    const audioBlob = await openaiService.textToSpeech(text, ttsVoice, speed || 1.0, abortController.signal);
     
     if (isInterrupted) {
       console.log("TTS interrupted, stopping");
@@ -85,7 +99,8 @@ self.addEventListener("message", async (e) => {
       status: "stream",
       chunk: {
         audio: audioBlob,
-        text: text
+        text: text,
+        generation
       }
     });
 
@@ -93,6 +108,10 @@ self.addEventListener("message", async (e) => {
     self.postMessage({ status: "complete" });
 
   } catch (error) {
+    if (isInterrupted) {
+      console.log("TTS request aborted");
+      return;
+    }
     console.error("TTS Worker error:", error);
     console.error("Error details:", {
       message: error.message,
@@ -105,6 +124,7 @@ self.addEventListener("message", async (e) => {
     });
   } finally {
     isProcessing = false;
+    abortController = null;
     
     // Process next queued request if any
     if (self.requestQueue && self.requestQueue.length > 0) {
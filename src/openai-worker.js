@@ -1,35 +1,92 @@
 import { OpenAIService } from './lib/openai.js';
+import { applyProviderConfig } from './lib/providers/config.js';
+import { createDefaultToolRegistry, runChatWithTools } from './lib/tools/index.js';
+import { PROFILE_EXTRACTION_PROMPT, PROFILE_RESPONSE_FORMAT, parseProfileFacts } from './lib/profile/extraction.js';
+
+// The memory index lives on the main thread, which makes every write to it; search_memories
+// asks it there rather than loading a second copy here that would miss those writes
+const pendingMemorySearches = new Map();
+let nextMemorySearchId = 1;
+
+function requestMemorySearch(query, topK) {
+  const requestId = nextMemorySearchId++;
+  return new Promise((resolve, reject) => {
+    pendingMemorySearches.set(requestId, { resolve, reject });
+    self.postMessage({ status: "memory_search", requestId, query, topK });
+  });
+}
+
+const toolRegistry = createDefaultToolRegistry(requestMemorySearch);
 
 let openaiService = null;
 let isProcessing = false;
 let isInterrupted = false;
+let abortController = null;
+let currentTask = null;
+let isBackgroundTask = false;
 
-// Initialize OpenAI service
-try {
-  openaiService = new OpenAIService();
-  self.postMessage({ status: "ready" });
-} catch (error) {
-  self.postMessage({ 
-    status: "error", 
-    data: error.message || "Failed to initialize OpenAI service" 
-  });
+// Summaries and profile extraction are background work: they wait for the current reply
+// instead of being rejected
+const BACKGROUND_TASKS = ['summarize', 'extract_profile'];
+const backgroundQueue = [];
+
+// Initialize the service with the provider config picked on the main thread
+function initialize(config) {
+  try {
+    if (config) {
+      applyProviderConfig(config);
+    }
+    openaiService = new OpenAIService(config);
+    openaiService.getChatProvider();
+    self.postMessage({ status: "ready" });
+  } catch (error) {
+    self.postMessage({ 
+      status: "error", 
+      data: error.message || "Failed to initialize chat provider" 
+    });
+  }
 }
 
 // Handle messages from main thread
 self.addEventListener("message", async (e) => {
   const { type, data } = e.data;
 
-  // Handle interrupt
+  // Handle interrupt: abort the in-flight request instead of just ignoring its output
   if (type === 'interrupt') {
     isInterrupted = true;
+    abortController?.abort();
     return;
   }
 
-  // Handle load (already done in initialization)
   if (type === 'load') {
+    initialize(data?.providers);
+    return;
+  }
+
+  // The main thread's answer to a requestMemorySearch; answered straight away, since the
+  // reply being generated is waiting on it
+  if (type === 'memory_search_result') {
+    const pending = pendingMemorySearches.get(data?.requestId);
+    if (!pending) return;
+    pendingMemorySearches.delete(data.requestId);
+    if (data.error) {
+      pending.reject(new Error(data.error));
+    } else {
+      pending.resolve(data.results);
+    }
     return;
   }
 
+  if (BACKGROUND_TASKS.includes(type) && isProcessing) {
+    backgroundQueue.push({ type, data });
+    return;
+  }
+
+  // An interrupted request may still be unwinding, and background tasks are quick; let them finish first
+  if (isProcessing && (isInterrupted || isBackgroundTask) && currentTask) {
+    await currentTask;
+  }
+
   // If already processing, queue or reject
   if (isProcessing) {
     self.postMessage({ 
@@ -39,32 +96,59 @@ self.addEventListener("message", async (e) => {
     return;
   }
 
+  await runTask(type, data);
+
+  while (!isProcessing && backgroundQueue.length > 0) {
+    const task = backgroundQueue.shift();
+    await runTask(task.type, task.data);
+  }
+});
+
+async function runTask(type, data) {
   isProcessing = true;
   isInterrupted = false;
+  isBackgroundTask = BACKGROUND_TASKS.includes(type);
 
-  try {
-    if (type === 'generate' || type === 'generate_with_audio') {
-      await handleChatGeneration(data);
-    } else if (type === 'summarize') {
-      await handleSummarization(data);
-    } else if (type === 'transcribe') {
-      await handleTranscription(data);
-    } else {
-      throw new Error(`Unknown message type: ${type}`);
+  currentTask = (async () => {
+    try {
+      if (type === 'generate' || type === 'generate_with_audio') {
+        await handleChatGeneration(data);
+      } else if (type === 'summarize' && data?.mode === 'session') {
+        await handleSessionSummary(data);
+      } else if (type === 'summarize' && data?.mode === 'consolidate') {
+        await handleConsolidation(data);
+      } else if (type === 'summarize') {
+        await handleSummarization(data);
+      } else if (type === 'extract_profile') {
+        await handleProfileExtraction(data);
+      } else if (type === 'transcribe') {
+        await handleTranscription(data);
+      } else {
+        throw new Error(`Unknown message type: ${type}`);
+      }
+    } catch (error) {
+      console.error("Worker error:", error);
+      self.postMessage({
+        status: "error",
+        data: error.message || "Unknown error occurred"
+      });
+    } finally {
+      isProcessing = false;
+      isBackgroundTask = false;
     }
-  } catch (error) {
-    console.error("Worker error:", error);
-    self.postMessage({
-      status: "error",
-      data: error.message || "Unknown error occurred"
-    });
-  } finally {
-    isProcessing = false;
-  }
-});
+  })();
+  await currentTask;
+}
+
+// index just past the last ". ", "! " or "? " in text, or -1
+function lastSentenceBoundary(text) {
+  const endings = [...text.matchAll(/[.!?]+\s+/g)];
+  const last = endings[endings.length - 1];
+  return last ? last.index + last[0].length : -1;
+}
 
 async function handleChatGeneration(data) {
-  const { messages, audio } = data;
+  const { messages, audio, maxTokens } = data;
   
   // If audio is provided, transcribe it first
   let userMessage = messages[messages.length - 1];
@@ -86,61 +170,80 @@ async function handleChatGeneration(data) {
   // Start generation
   self.postMessage({ status: "start" });
 
-  let fullResponse = "";
   let currentSentenceBuffer = "";
+  abortController = new AbortController();
 
-  await openaiService.streamChat(
-    messages,
-    // onChunk callback
-    (content) => {
-      if (isInterrupted) return;
-      
-      fullResponse += content;
-      currentSentenceBuffer += content;
-      
-      self.postMessage({
-        status: "update",
-        output: content
-      });
+  try {
+    const { text: completeResponse, finishReason, usage } = await runChatWithTools(openaiService, messages, toolRegistry, {
+      onChunk: (content) => {
+        if (isInterrupted) return;
+
+        currentSentenceBuffer += content;
 
-      // Check for sentence endings for TTS (less aggressive)
-      const sentenceEndRegex = /[.!?]\s+/;
-      if (sentenceEndRegex.test(content)) {
-        const sentenceToSpeak = currentSentenceBuffer.trim();
-        if (sentenceToSpeak && sentenceToSpeak.length > 10) {
-          self.postMessage({
-            status: "sentence_ready",
-            sentence: sentenceToSpeak
-          });
-        }
-        currentSentenceBuffer = "";
-      }
-    },
-    // onComplete callback
-    (completeResponse) => {
-      if (isInterrupted) return;
-      
-      // Send any remaining buffer as final sentence
-      if (currentSentenceBuffer.trim()) {
         self.postMessage({
-          status: "sentence_ready",
-          sentence: currentSentenceBuffer.trim()
+          status: "update",
+          output: content
         });
-      }
-      
-      self.postMessage({
-        status: "complete",
-        output: completeResponse
-      });
-    },
-    // onError callback
-    (error) => {
+
+        // Hand finished sentences to TTS as they stream in; tokens rarely carry both the
+        // punctuation and the following space, so look at the whole buffer
+        const boundary = lastSentenceBoundary(currentSentenceBuffer);
+        if (boundary > 0) {
+          const sentenceToSpeak = currentSentenceBuffer.slice(0, boundary).trim();
+          // very short sentences wait and go out with the next one
+          if (sentenceToSpeak.length > 10) {
+            self.postMessage({
+              status: "sentence_ready",
+              sentence: sentenceToSpeak
+            });
+            currentSentenceBuffer = currentSentenceBuffer.slice(boundary);
+          }
+        }
+      },
+      // Report tool activity so the UI can show what Samantha is doing
+      onToolCall: (tool) => {
+        self.postMessage({ status: "tool_call", tool });
+      },
+      onToolResult: (tool) => {
+        self.postMessage({ status: "tool_result", tool });
+      },
+      // Events can arrive long after the reply finished (e.g. a timer going off)
+      onEvent: (event) => {
+        self.postMessage({ status: "tool_event", event });
+      },
+    }, { signal: abortController.signal, maxTokens });
+
+    if (isInterrupted) {
+      self.postMessage({ status: "interrupted" });
+      return;
+    }
+
+    // Send any remaining buffer as final sentence
+    if (currentSentenceBuffer.trim()) {
       self.postMessage({
-        status: "error",
-        data: error
+        status: "sentence_ready",
+        sentence: currentSentenceBuffer.trim()
       });
     }
-  );
+
+    self.postMessage({
+      status: "complete",
+      output: completeResponse,
+      finishReason,
+      usage
+    });
+  } catch (error) {
+    if (isInterrupted) {
+      self.postMessage({ status: "interrupted" });
+      return;
+    }
+    self.postMessage({
+      status: "error",
+      data: error.message || "Chat generation failed"
+    });
+  } finally {
+    abortController = null;
+  }
 }
 
 async function handleSummarization(data) {
@@ -193,6 +296,136 @@ async function handleSummarization(data) {
   }
 }
 
+// Folds turns that no longer fit in the context window into the running session summary
+async function handleSessionSummary(data) {
+  const { previousSummary, transcript, coveredCount } = data;
+
+  const summaryMessages = [
+    {
+      role: "system",
+      content: "You keep a running summary of a voice conversation between the user and Samantha. Update the summary with the new turns. Keep names, facts, plans, feelings and open questions; drop small talk. Write plain prose in 150 words or less."
+    },
+    {
+      role: "user",
+      content: `Summary so far:\n${previousSummary || "(none yet)"}\n\nNew turns:\n${transcript}`
+    }
+  ];
+
+  try {
+    await openaiService.streamChat(
+      summaryMessages,
+      () => {},
+      (summary) => {
+        self.postMessage({
+          status: "session_summary_complete",
+          summary: summary.trim(),
+          coveredCount
+        });
+      },
+      (error) => {
+        self.postMessage({
+          status: "session_summary_error",
+          data: error
+        });
+      },
+      { maxTokens: 300 }
+    );
+  } catch (error) {
+    self.postMessage({
+      status: "session_summary_error",
+      data: error.message
+    });
+  }
+}
+
+// Merges near-duplicate memories into one; memories arrive oldest first, so the model can
+// let later statements win where they disagree
+async function handleConsolidation(data) {
+  const { memories } = data;
+  const memoryIds = memories.map((memory) => memory.id);
+
+  const consolidationMessages = [
+    {
+      role: "system",
+      content: "You merge overlapping notes about a user into a single note. Keep every distinct fact, drop repetition. The notes are listed oldest first: where they contradict each other, keep only the most recent version. Write one or two short sentences in the same voice as the notes, with no preamble."
+    },
+    {
+      role: "user",
+      content: memories
+        .map((memory) => `[${new Date(memory.timestamp).toISOString().slice(0, 10)}] ${memory.text}`)
+        .join("\n")
+    }
+  ];
+
+  try {
+    await openaiService.streamChat(
+      consolidationMessages,
+      () => {},
+      (merged) => {
+        self.postMessage({
+          status: "consolidation_complete",
+          text: merged.trim(),
+          memoryIds
+        });
+      },
+      (error) => {
+        self.postMessage({
+          status: "consolidation_error",
+          data: error,
+          memoryIds
+        });
+      },
+      { maxTokens: 150 }
+    );
+  } catch (error) {
+    self.postMessage({
+      status: "consolidation_error",
+      data: error.message,
+      memoryIds
+    });
+  }
+}
+
+// Pulls durable facts about the user (name, pronouns, people, preferences, dates) out of
+// their latest message as structured output; the main thread stores them
+async function handleProfileExtraction(data) {
+  const { text, previousMessage, knownProfile, source } = data;
+
+  const extractionMessages = [
+    { role: "system", content: PROFILE_EXTRACTION_PROMPT },
+    {
+      role: "user",
+      content: `Already known:\n${knownProfile || "(nothing yet)"}\n\nPrevious message from Samantha:\n${previousMessage || "(none)"}\n\nUser's latest message:\n${text}`
+    }
+  ];
+
+  try {
+    await openaiService.streamChat(
+      extractionMessages,
+      () => {},
+      (response) => {
+        self.postMessage({
+          status: "profile_extracted",
+          facts: parseProfileFacts(response),
+          source
+        });
+      },
+      (error) => {
+        self.postMessage({
+          status: "profile_error",
+          data: error
+        });
+      },
+      { maxTokens: 300, responseFormat: PROFILE_RESPONSE_FORMAT }
+    );
+  } catch (error) {
+    self.postMessage({
+      status: "profile_error",
+      data: error.message
+    });
+  }
+}
+
 async function handleTranscription(data) {
   const { audioBlob } = data;
   
@@ -1,8 +1,12 @@
 export interface Message {
   role: "user" | "assistant" | "system";
   content: string;
+  timestamp?: number; // set on persisted turns
+  citations?: number[]; // memory ids an assistant reply drew on (see lib/citations.ts)
 }
 
+export type TranscriptFormat = "markdown" | "json" | "text";
+
 
 export interface Voices {
   [key: string]: string;
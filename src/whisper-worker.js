@@ -49,25 +49,31 @@ async function generate({ audio, language }) {
   // Tell the main thread we are starting
   self.postMessage({ status: 'start' });
 
-  // Retrieve the text-generation pipeline.
-  const [tokenizer, processor, model] = await AutomaticSpeechRecognitionPipeline.getInstance();
+  try {
+      // Retrieve the text-generation pipeline.
+      const [tokenizer, processor, model] = await AutomaticSpeechRecognitionPipeline.getInstance();
 
-  const inputs = await processor(audio);
+      const inputs = await processor(audio);
 
-  const outputs = await model.generate({
-      ...inputs,
-      max_new_tokens: MAX_NEW_TOKENS,
-      language,
-  });
+      const outputs = await model.generate({
+          ...inputs,
+          max_new_tokens: MAX_NEW_TOKENS,
+          language,
+      });
 
-  const outputText = tokenizer.batch_decode(outputs, { skip_special_tokens: true });
+      const outputText = tokenizer.batch_decode(outputs, { skip_special_tokens: true });
 
-  // Send the output back to the main thread
-  self.postMessage({
-      status: 'complete',
-      output: outputText,
-  });
-  processing = false;
+      // Send the output back to the main thread
+      self.postMessage({
+          status: 'complete',
+          output: outputText,
+      });
+  } catch (error) {
+      console.error('Transcription error:', error);
+      self.postMessage({ status: 'error', data: error.message });
+  } finally {
+      processing = false;
+  }
 }
 
 async function load() {
@@ -77,11 +83,16 @@ async function load() {
   });
 
   // Load the pipeline and save it for future use.
-  const [model] = await AutomaticSpeechRecognitionPipeline.getInstance(x => {
-      // We also add a progress callback to the pipeline so that we can
-      // track model loading.
-      self.postMessage(x);
-  });
+  try {
+      await AutomaticSpeechRecognitionPipeline.getInstance(x => {
+          // We also add a progress callback to the pipeline so that we can
+          // track model loading.
+          self.postMessage(x);
+      });
+  } catch (error) {
+      self.postMessage({ status: 'error', data: error.message });
+      return;
+  }
 
   self.postMessage({
       status: 'loading',